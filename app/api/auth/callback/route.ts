@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookieOptions, seal, unseal } from "@/lib/session";
+import {
+  exchangeCode,
+  OAUTH_COOKIE,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE,
+  type OAuthState,
+} from "@/lib/spotify-auth";
+
+/** Spotify sends the browser back here with ?code&state (or ?error) */
+export async function GET(req: NextRequest) {
+  const home = new URL("/", req.nextUrl.origin);
+  const fail = (reason: string) => {
+    home.searchParams.set("login_error", reason);
+    const res = NextResponse.redirect(home);
+    res.cookies.delete(OAUTH_COOKIE);
+    return res;
+  };
+
+  const params = req.nextUrl.searchParams;
+  if (params.get("error")) return fail(params.get("error") ?? "denied");
+
+  const pending = unseal<OAuthState>(req.cookies.get(OAUTH_COOKIE)?.value);
+  const code = params.get("code");
+  if (!pending || !code || params.get("state") !== pending.state) return fail("state_mismatch");
+
+  try {
+    const session = await exchangeCode(code, pending.verifier, pending.redirectUri);
+    const res = NextResponse.redirect(home);
+    res.cookies.delete(OAUTH_COOKIE);
+    res.cookies.set(SESSION_COOKIE, seal(session), cookieOptions(SESSION_MAX_AGE));
+    return res;
+  } catch {
+    return fail("token_exchange_failed");
+  }
+}
@@ -0,0 +1,28 @@
+import { randomBytes } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/http";
+import { cookieOptions, seal } from "@/lib/session";
+import {
+  authorizeUrl,
+  createPkcePair,
+  OAUTH_COOKIE,
+  redirectUriFor,
+  type OAuthState,
+} from "@/lib/spotify-auth";
+
+/** Starts the Spotify login: remember state + verifier, then send the browser to Spotify */
+export async function GET(req: NextRequest) {
+  try {
+    const { verifier, challenge } = createPkcePair();
+    const state = randomBytes(16).toString("base64url");
+    const redirectUri = redirectUriFor(req.nextUrl.origin);
+
+    const res = NextResponse.redirect(authorizeUrl({ state, challenge, redirectUri }));
+    const pending: OAuthState = { state, verifier, redirectUri };
+    // Ten minutes is plenty to click through Spotify's consent screen
+    res.cookies.set(OAUTH_COOKIE, seal(pending), cookieOptions(600));
+    return res;
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { clearSession } from "@/lib/spotify-auth";
+
+export async function POST() {
+  await clearSession();
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError } from "@/lib/api";
+import { parseCollection, type Collection } from "@/lib/collection";
+import { clearCollection, getCollection, saveCollection } from "@/lib/collection-store";
+import { errorResponse, readBodyText } from "@/lib/http";
+
+// A big Library.xml runs to tens of MB; refuse anything far beyond that
+const MAX_BYTES = 100 * 1024 * 1024;
+
+function summary(c: Collection | null) {
+  return c ? { name: c.name, format: c.format, tracks: c.entries.length, importedAt: c.importedAt } : null;
+}
+
+/** What's uploaded for this browser, without the track list */
+export async function GET() {
+  try {
+    return NextResponse.json({ collection: summary(await getCollection()) });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
+
+/**
+ * The export file as the raw request body (Library.xml, Rekordbox XML or
+ * M3U/M3U8), with its name in ?name=.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const name = req.nextUrl.searchParams.get("name") || "collection";
+    const text = await readBodyText(req, MAX_BYTES, "That file is too big");
+    let collection: Collection;
+    try {
+      collection = parseCollection(text, name);
+    } catch (e) {
+      throw new ApiError("INVALID_REQUEST", e instanceof Error ? e.message : "That file couldn't be read");
+    }
+    await saveCollection(collection);
+    return NextResponse.json({ collection: summary(collection) });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
+
+export async function DELETE() {
+  await clearCollection();
+  return NextResponse.json({ ok: true });
+}
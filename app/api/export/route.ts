@@ -0,0 +1,62 @@
+import { NextRequest } from "next/server";
+import { ApiError, parseResultRow } from "@/lib/api";
+import { EXPORT_FORMATS, renderExport, type ExportFormat, type ExportRow } from "@/lib/export";
+import { errorResponse } from "@/lib/http";
+import { PROVIDER_META } from "@/lib/providers/meta";
+import type { ProviderMeta } from "@/lib/providers/types";
+
+// A few thousand tracks is already a very large playlist
+const MAX_ROWS = 10_000;
+
+/** The file the page matched in the uploaded collection, for the "In library" column */
+function libraryMatch(v: unknown): ExportRow["inLibrary"] {
+  const { file, title } = (v ?? {}) as Record<string, unknown>;
+  if (typeof title !== "string") return undefined;
+  return { file: typeof file === "string" ? file : null, title };
+}
+
+function exportRow(v: unknown, i: number): ExportRow {
+  const row = parseResultRow(`rows[${i}]`, v);
+  return { ...row, inLibrary: libraryMatch((v as { inLibrary?: unknown }).inLibrary) };
+}
+
+/**
+ * Formats the rows the page already has; nothing is looked up again.
+ * POST ?format=csv|tsv|json|m3u8|html|md with { name, country, providers, rows }.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const format = req.nextUrl.searchParams.get("format") as ExportFormat | null;
+    if (!format || !EXPORT_FORMATS.includes(format)) {
+      throw new ApiError("INVALID_REQUEST", `format must be one of ${EXPORT_FORMATS.join(", ")}`);
+    }
+    const body = await req.json().catch(() => {
+      throw new ApiError("INVALID_REQUEST", "Body must be JSON");
+    });
+    const { name, country, providers, rows } = (body ?? {}) as Record<string, unknown>;
+    if (!Array.isArray(rows) || rows.length > MAX_ROWS) {
+      throw new ApiError("INVALID_REQUEST", `rows must be a list of up to ${MAX_ROWS} tracks`);
+    }
+
+    // Labels come from our own table, in the order the request listed the stores
+    const metas: ProviderMeta[] = Object.values(PROVIDER_META);
+    const wanted = Array.isArray(providers) ? providers : [];
+    const picked = wanted.map((id) => metas.find((m) => m.id === id)).filter((m): m is ProviderMeta => !!m);
+
+    const { body: file, contentType, filename } = renderExport(format, {
+      name: typeof name === "string" && name ? name : "playlist",
+      country: typeof country === "string" ? country : "",
+      providers: picked,
+      rows: rows.map(exportRow),
+    });
+    return new Response(file, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUserSession } from "@/lib/spotify-auth";
+import { parseLibrary } from "@/lib/library";
+import { loadLibrary, storeLibrary } from "@/lib/library-store";
+
+function errorMessage(e: unknown) {
+  return e instanceof Error ? e.message : "Unknown error";
+}
+
+/** The connected user's purchase library */
+export async function GET() {
+  try {
+    const session = await getUserSession();
+    if (!session) return NextResponse.json({ error: "Connect Spotify to sync your library" }, { status: 401 });
+    return NextResponse.json({ library: await loadLibrary(session.user.id) });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e) }, { status: 500 });
+  }
+}
+
+/** Replace it with the library in the body (the page merges before sending) */
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await getUserSession();
+    if (!session) return NextResponse.json({ error: "Connect Spotify to sync your library" }, { status: 401 });
+    let library;
+    try {
+      library = parseLibrary(await req.json());
+    } catch (e) {
+      return NextResponse.json({ error: errorMessage(e) }, { status: 400 });
+    }
+    await storeLibrary(session.user.id, library);
+    return NextResponse.json({ library });
+  } catch (e) {
+    return NextResponse.json({ error: errorMessage(e) }, { status: 500 });
+  }
+}
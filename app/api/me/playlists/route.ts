@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { ApiError } from "@/lib/api";
+import { errorResponse } from "@/lib/http";
+import { SPOTIFY_API, spotifyFetch } from "@/lib/spotify";
+import { getUserSession } from "@/lib/spotify-auth";
+
+// Enough for any realistic crate collection without paging forever
+const MAX_PLAYLISTS = 500;
+
+type SpotifyPlaylist = {
+  id: string;
+  name: string;
+  collaborative?: boolean;
+  public?: boolean | null;
+  owner?: { display_name?: string | null; id?: string };
+  tracks?: { total?: number };
+};
+
+/** The connected user's own and followed playlists, for the picker */
+export async function GET() {
+  try {
+    const session = await getUserSession();
+    if (!session) throw new ApiError("LOGIN_REQUIRED", "Connect Spotify to list your playlists");
+
+    const playlists: {
+      id: string;
+      name: string;
+      owner: string;
+      tracks: number;
+      collaborative: boolean;
+      private: boolean;
+    }[] = [];
+    let url: string | null = `${SPOTIFY_API}/me/playlists?limit=50`;
+    while (url && playlists.length < MAX_PLAYLISTS) {
+      // Queued with the other Spotify calls; a 429 that outlasts the retries is UPSTREAM_RATE_LIMITED
+      const res: Response = await spotifyFetch(url, {
+        headers: { Authorization: `Bearer ${session.accessToken}` },
+        cache: "no-store",
+      });
+      if (res.status === 401) throw new ApiError("SPOTIFY_AUTH_FAILED", "Spotify rejected the login; connect again");
+      if (!res.ok) throw new ApiError("UPSTREAM_UNAVAILABLE", `Failed to fetch Spotify playlists (HTTP ${res.status})`);
+      const data: { items?: (SpotifyPlaylist | null)[]; next?: string | null } = await res.json();
+      for (const p of data.items ?? []) {
+        if (!p) continue;
+        playlists.push({
+          id: p.id,
+          name: p.name,
+          owner: p.owner?.display_name || p.owner?.id || "",
+          tracks: p.tracks?.total ?? 0,
+          collaborative: !!p.collaborative,
+          private: p.public === false,
+        });
+      }
+      url = data.next ?? null;
+    }
+    return NextResponse.json({ playlists });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/http";
+import { getUserSession } from "@/lib/spotify-auth";
+
+/** Who's connected, if anyone; never exposes the tokens themselves */
+export async function GET() {
+  try {
+    const session = await getUserSession();
+    return NextResponse.json({ user: session?.user ?? null });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError } from "@/lib/api";
+import { requireAdminKey } from "@/lib/api-keys";
+import { errorResponse } from "@/lib/http";
+import { loadOverrides, updateOverrides } from "@/lib/override-store";
+import {
+  mergeOverrides,
+  overrideUrlError,
+  parseOverride,
+  parseOverrides,
+  removeOverride,
+  setOverride,
+  type MatchOverride,
+} from "@/lib/overrides";
+import { PROVIDER_META } from "@/lib/providers/meta";
+
+async function readJson(req: NextRequest) {
+  return req.json().catch(() => {
+    throw new ApiError("INVALID_REQUEST", "Body must be JSON");
+  });
+}
+
+/** One override from a body, with a reason when it can't be used */
+function readOverride(body: unknown): MatchOverride {
+  const b = (body ?? {}) as Partial<MatchOverride>;
+  if (typeof b.providerId !== "string" || !Object.hasOwn(PROVIDER_META, b.providerId)) {
+    throw new ApiError("INVALID_REQUEST", "providerId must be a store ID");
+  }
+  if (typeof b.url === "string" && b.url) {
+    const problem = overrideUrlError(b.providerId, b.url);
+    if (problem) throw new ApiError("INVALID_REQUEST", problem);
+  }
+  const override = parseOverride({ ...b, savedAt: Date.now() });
+  if (!override) throw new ApiError("INVALID_REQUEST", "Overrides need the Spotify track ID or ISRC");
+  return override;
+}
+
+// Overrides change every user's results (and the v1 API's), so only reading them is open
+
+/** Every override on this server (also the export) */
+export async function GET() {
+  try {
+    return NextResponse.json({ overrides: await loadOverrides() });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
+
+/** Set one: { providerId, trackId, isrc, title, artist, url } with url null for "no match" */
+export async function POST(req: NextRequest) {
+  try {
+    requireAdminKey(req);
+    const override = readOverride(await readJson(req));
+    return NextResponse.json({ overrides: await updateOverrides((set) => setOverride(set, override)) });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
+
+/** Import an export; where both have the same track, the newer override wins */
+export async function PUT(req: NextRequest) {
+  try {
+    requireAdminKey(req);
+    let incoming;
+    try {
+      incoming = parseOverrides(await readJson(req));
+    } catch (e) {
+      if (e instanceof ApiError) throw e;
+      throw new ApiError("INVALID_REQUEST", e instanceof Error ? e.message : "Not an overrides export");
+    }
+    return NextResponse.json({ overrides: await updateOverrides((set) => mergeOverrides(set, incoming)) });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
+
+/** Forget one: { providerId, trackId, isrc } */
+export async function DELETE(req: NextRequest) {
+  try {
+    requireAdminKey(req);
+    const b = (await readJson(req)) as Partial<MatchOverride>;
+    if (typeof b.providerId !== "string") throw new ApiError("INVALID_REQUEST", "providerId required");
+    const target = { providerId: b.providerId, trackId: b.trackId ?? null, isrc: b.isrc ?? null };
+    return NextResponse.json({ overrides: await updateOverrides((set) => removeOverride(set, target)) });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
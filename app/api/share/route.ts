@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError, parseShareRequest, type ResolvedSource, type ShareResponse } from "@/lib/api";
+import { clientAddress, errorResponse, readBodyText } from "@/lib/http";
+import { PROVIDER_META } from "@/lib/providers/meta";
+import type { ProviderMeta } from "@/lib/providers/types";
+import { createRateLimiter } from "@/lib/rate-limit";
+import { saveShare } from "@/lib/share-store";
+import { getSpotifyAppToken } from "@/lib/spotify";
+import { getUserSession, type UserSession } from "@/lib/spotify-auth";
+import { fetchCoverImage } from "@/lib/spotify-source";
+
+// Room for MAX_SHARED_ROWS rows with their alternates and storefronts
+const MAX_SHARE_BYTES = 10 * 1024 * 1024;
+// Shares stay on disk for days or for good, so each connected user or address only gets so many
+const SHARES_PER_HOUR = 20;
+const takeShare = createRateLimiter(60 * 60 * 1000, "per hour");
+
+/** A private playlist's cover needs the sharer's own token */
+async function coverImage(source: ResolvedSource, session: UserSession | null) {
+  const token = session?.accessToken ?? (await getSpotifyAppToken()).access_token;
+  return fetchCoverImage(source, token);
+}
+
+/** Saves the results the page is showing and answers with their /r/{id} link */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getUserSession();
+    takeShare(session ? `user:${session.user.id}` : `address:${clientAddress(req)}`, SHARES_PER_HOUR);
+    const text = await readBodyText(req, MAX_SHARE_BYTES, "Too many results to share at once");
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new ApiError("INVALID_REQUEST", "Body must be JSON");
+    }
+    const { source, countries, providers, rows, expiresInDays } = parseShareRequest(body);
+
+    const metas: ProviderMeta[] = Object.values(PROVIDER_META);
+    const picked = providers.map((id) => metas.find((m) => m.id === id)).filter((m): m is ProviderMeta => !!m);
+
+    // A missing cover isn't worth failing the share over
+    const imageUrl = await coverImage(source, session).catch(() => null);
+
+    const saved = await saveShare({ source, countries, providers: picked, rows, imageUrl }, expiresInDays);
+    const response: ShareResponse = {
+      id: saved.id,
+      url: `${req.nextUrl.origin}/r/${saved.id}`,
+      expiresAt: saved.expiresAt,
+    };
+    return NextResponse.json(response);
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiError } from "@/lib/api";
+import { errorResponse } from "@/lib/http";
+import { MIN_CONFIDENCE } from "@/lib/matching";
+import { fetchForeignTracks, parseForeignLink, type ForeignTrack } from "@/lib/reverse";
+import { getSpotifyAppToken, searchSpotifyTracks, type SpotifyCandidate } from "@/lib/spotify";
+
+// Enough for any album and most playlists without one request running for minutes
+const MAX_TRACKS = 300;
+const ALTERNATES = 4;
+
+type ReverseResult = ForeignTrack & {
+  /** Best Spotify track, when it clears MIN_CONFIDENCE */
+  match: SpotifyCandidate | null;
+  alternates: SpotifyCandidate[];
+  error?: string;
+};
+
+async function matchOnSpotify(track: ForeignTrack, market: string): Promise<ReverseResult> {
+  try {
+    const ranked = (await searchSpotifyTracks(track, market)).slice(0, ALTERNATES + 1);
+    const best = ranked[0] && ranked[0].confidence >= MIN_CONFIDENCE ? ranked[0] : null;
+    return { ...track, match: best, alternates: best ? ranked.slice(1) : ranked };
+  } catch (e) {
+    // Missing or rejected credentials fail every track alike; say so once, with its code
+    if (e instanceof ApiError) throw e;
+    return { ...track, match: null, alternates: [], error: "Spotify search failed" };
+  }
+}
+
+/**
+ * Apple Music / iTunes album or playlist, or Bandcamp album → Spotify tracks.
+ * POST { url, country? }; responds with each track's match and the matched
+ * URIs in order, ready to paste into a Spotify playlist.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => {
+      throw new ApiError("INVALID_REQUEST", "Body must be JSON");
+    });
+    const { url, country } = (body ?? {}) as { url?: unknown; country?: unknown };
+    if (!url || typeof url !== "string") throw new ApiError("INVALID_REQUEST", "url required");
+
+    const link = parseForeignLink(url);
+    const market =
+      typeof country === "string" && /^[a-z]{2}$/i.test(country)
+        ? country.toUpperCase()
+        : link.service === "apple"
+          ? link.country
+          : "US";
+
+    // Before the store is asked: without a Spotify token there's nothing to match on
+    await getSpotifyAppToken();
+    const source = await fetchForeignTracks(link);
+    const tracks = source.tracks.slice(0, MAX_TRACKS);
+    const results = await Promise.all(tracks.map((t) => matchOnSpotify(t, market)));
+
+    return NextResponse.json({
+      source: { service: link.service, kind: link.kind, name: source.name, url: link.url },
+      market,
+      truncated: source.tracks.length > tracks.length,
+      tracks: results,
+      uris: results.flatMap((r) => (r.match ? [r.match.uri] : [])),
+    });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,43 @@
+import { paginate } from "@/lib/api";
+import { renderExport, type ExportFormat } from "@/lib/export";
+import { resolveTrack, type LookupOptions } from "@/lib/lookup";
+import { loadOverrides } from "@/lib/override-store";
+import { indexOverrides } from "@/lib/overrides";
+import { getProviders, toMeta } from "@/lib/providers";
+import { parseMatchRequest, readJson, requestedTracks, V1_ROUTES, withApiKey } from "@/lib/v1";
+
+/**
+ * POST ?format= with the same body as /api/v1/match → the matched page as a
+ * file. X-Total-Count and X-Next-Offset say whether there's more to fetch.
+ */
+export const POST = withApiKey(V1_ROUTES.export, async (req) => {
+  // One of EXPORT_FORMATS; withApiKey has checked it against V1_ROUTES
+  const format = new URL(req.url).searchParams.get("format")!.trim() as ExportFormat;
+  const request = parseMatchRequest(await readJson(req), V1_ROUTES.export.page);
+  const { source, tracks } = await requestedTracks(request);
+  const opts: LookupOptions = {
+    providers: getProviders(request.providers),
+    countries: request.countries,
+    refresh: request.refresh,
+    collection: null,
+    overrides: indexOverrides(await loadOverrides()),
+  };
+  const page = paginate(tracks, request.page);
+  const rows = await Promise.all(page.items.map((t) => resolveTrack(t, opts)));
+
+  const { body, contentType, filename } = renderExport(format, {
+    name: source?.name ?? "tracks",
+    country: opts.countries[0],
+    providers: opts.providers.map(toMeta),
+    rows,
+  });
+  return new Response(body, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+      "X-Total-Count": String(page.total),
+      ...(page.nextOffset != null ? { "X-Next-Offset": String(page.nextOffset) } : {}),
+    },
+  });
+});
@@ -0,0 +1,31 @@
+import { paginate } from "@/lib/api";
+import { resolveTrack, type LookupOptions } from "@/lib/lookup";
+import { loadOverrides } from "@/lib/override-store";
+import { indexOverrides } from "@/lib/overrides";
+import { getProviders, toMeta } from "@/lib/providers";
+import { parseMatchRequest, readJson, requestedTracks, v1Json, V1_ROUTES, withApiKey } from "@/lib/v1";
+
+/**
+ * POST { link | tracks, countries, providers, offset, limit, refresh } →
+ * store matches for one page of tracks. Page through a playlist with `nextOffset`.
+ */
+export const POST = withApiKey(V1_ROUTES.match, async (req) => {
+  const request = parseMatchRequest(await readJson(req), V1_ROUTES.match.page);
+  const { source, tracks } = await requestedTracks(request);
+  const opts: LookupOptions = {
+    providers: getProviders(request.providers),
+    countries: request.countries,
+    refresh: request.refresh,
+    collection: null,
+    overrides: indexOverrides(await loadOverrides()),
+  };
+  const page = paginate(tracks, request.page);
+  const items = await Promise.all(page.items.map((t) => resolveTrack(t, opts)));
+  return v1Json({
+    source,
+    countries: opts.countries,
+    providers: opts.providers.map(toMeta),
+    ...page,
+    items,
+  });
+});
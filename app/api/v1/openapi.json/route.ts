@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { openApiDocument } from "@/lib/openapi";
+
+/** The v1 spec; no key needed to read it */
+export async function GET(req: Request) {
+  return NextResponse.json(openApiDocument(new URL(req.url).origin));
+}
@@ -0,0 +1,12 @@
+import { parseCountries } from "@/lib/api";
+import { loadSource, v1Json, V1_ROUTES, withApiKey } from "@/lib/v1";
+
+/** GET ?link=&country= → what the link points at, how many tracks it has, and what was left out */
+export const GET = withApiKey(V1_ROUTES.resolve, async (req) => {
+  const params = new URL(req.url).searchParams;
+  // Required in V1_ROUTES, so withApiKey has checked it's there
+  const link = params.get("link")!.trim();
+  const [market] = parseCountries(undefined, params.get("country"));
+  const { source, tracks, skipped } = await loadSource(link, market);
+  return v1Json({ source, total: tracks.length, skipped });
+});
@@ -0,0 +1,13 @@
+import { paginate, parseCountries, parsePage } from "@/lib/api";
+import { loadSource, v1Json, V1_ROUTES, withApiKey } from "@/lib/v1";
+
+/** GET ?link=&country=&offset=&limit= → one page of the link's tracks, in order */
+export const GET = withApiKey(V1_ROUTES.tracks, async (req) => {
+  const params = new URL(req.url).searchParams;
+  // Required in V1_ROUTES, so withApiKey has checked it's there
+  const link = params.get("link")!.trim();
+  const [market] = parseCountries(undefined, params.get("country"));
+  const page = parsePage(params.get("offset"), params.get("limit"), V1_ROUTES.tracks.page);
+  const { source, tracks } = await loadSource(link, market);
+  return v1Json({ source, ...paginate(tracks, page) });
+});
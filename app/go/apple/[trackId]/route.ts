@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseCountries } from "@/lib/api";
+import {
+  APPLE_OPENER_LABELS,
+  APPLE_OPENERS,
+  APPLE_PREFERENCE_COOKIE,
+  APPLE_SEEN_COOKIE,
+  appleLink,
+  chooseOpener,
+  formatSeen,
+  parsePreference,
+  parseSeen,
+  type AppleOpener,
+  type AppleTrackLinks,
+} from "@/lib/apple-links";
+import { errorJson } from "@/lib/http";
+import { lookupTrackLinks } from "@/lib/providers/apple";
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/**
+ * One try at the app link, no chain of guesses: if the page gets hidden or
+ * loses focus the app opened, and that's remembered; if not, it says so and
+ * offers the web page or the other app instead of navigating on its own.
+ */
+function openerPage(
+  opener: Exclude<AppleOpener, "web">,
+  links: AppleTrackLinks,
+  seen: string,
+  goUrl: (via: AppleOpener) => string
+) {
+  const other: AppleOpener = opener === "itunes" ? "music" : "itunes";
+  const label = APPLE_OPENER_LABELS[opener];
+  const failed = parseSeen(seen).failed.filter((o) => o !== opener);
+  const data = {
+    app: appleLink(opener, links),
+    seenCookie: APPLE_SEEN_COOKIE,
+    preferenceCookie: APPLE_PREFERENCE_COOKIE,
+    worked: formatSeen({ worked: opener, failed: [] }),
+    failed: formatSeen({ worked: null, failed: [...failed, opener] }),
+  };
+  // Inside <script>, "</script>" in a string would end it early
+  const json = JSON.stringify(data).replace(/</g, "\\u003c");
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>Opening the ${escapeHtml(label)}…</title>
+<style>
+body { font: 16px/1.5 system-ui, sans-serif; max-width: 32rem; margin: 20vh auto; padding: 0 1rem; text-align: center; }
+a { color: #2563eb; }
+.later, .failed .now { display: none; }
+.failed .later { display: block; }
+</style>
+</head>
+<body>
+<p class="now">Opening the ${escapeHtml(label)}… <a href="${escapeHtml(data.app)}">open it</a></p>
+<div class="later">
+<p>The ${escapeHtml(label)} didn't open.</p>
+<p>
+<a href="${escapeHtml(links.webUrl)}">Open the web page</a> ·
+<a href="${escapeHtml(goUrl(other))}">Try the ${escapeHtml(APPLE_OPENER_LABELS[other])}</a> ·
+<a href="${escapeHtml(links.webUrl)}" id="always-web">Always use the web page</a>
+</p>
+</div>
+<script>
+(function () {
+  var data = ${json};
+  var blurred = false;
+  var hidden = false;
+  document.addEventListener("visibilitychange", function () { if (document.hidden) hidden = true; });
+  window.addEventListener("blur", function () { blurred = true; });
+  function remember(name, value) {
+    document.cookie = name + "=" + value + "; path=/; max-age=31536000; samesite=lax";
+  }
+  document.getElementById("always-web").addEventListener("click", function () {
+    remember(data.preferenceCookie, "web");
+  });
+  window.location.href = data.app;
+  setTimeout(function () {
+    if (hidden || (blurred && !document.hasFocus())) {
+      remember(data.seenCookie, data.worked);
+      window.close();
+      return;
+    }
+    remember(data.seenCookie, data.failed);
+    document.body.className = "failed";
+  }, 2500);
+})();
+</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * GET /go/apple/{trackId}?country=GB[&via=itunes|music|web]: the iTunes
+ * Store track in whichever app (or the web page) suits this browser.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ trackId: string }> }) {
+  const { trackId } = await params;
+  if (!/^\d+$/.test(trackId)) return errorJson("INVALID_REQUEST", "Not an iTunes track ID");
+  const search = req.nextUrl.searchParams;
+  const [country] = parseCountries(undefined, search.get("country"));
+  const links = await lookupTrackLinks(trackId, country);
+
+  const seen = req.cookies.get(APPLE_SEEN_COOKIE)?.value;
+  const via = search.get("via");
+  const opener = (APPLE_OPENERS as readonly string[]).includes(via ?? "")
+    ? (via as AppleOpener)
+    : chooseOpener(
+        parsePreference(req.cookies.get(APPLE_PREFERENCE_COOKIE)?.value),
+        parseSeen(seen),
+        req.headers.get("user-agent") ?? ""
+      );
+  if (opener === "web") return NextResponse.redirect(links.webUrl);
+
+  const goUrl = (next: AppleOpener) => `${req.nextUrl.pathname}?country=${country}&via=${next}`;
+  return new Response(openerPage(opener, links, seen ?? "", goUrl), {
+    headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" },
+  });
+}
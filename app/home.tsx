@@ -0,0 +1,1209 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import {
+  BOUGHT_ON,
+  BOUGHT_ON_LABELS,
+  EMPTY_LIBRARY,
+  findOwned,
+  markOwned,
+  mergeLibraries,
+  parseLibrary,
+  unmarkOwned,
+  type BoughtOn,
+  type Library,
+} from "@/lib/library";
+import {
+  APPLE_OPENER_LABELS,
+  APPLE_PREFERENCE_COOKIE,
+  APPLE_SEEN_COOKIE,
+  type ApplePreference,
+} from "@/lib/apple-links";
+import { adminHeaders, readAdminKey } from "@/lib/admin-key";
+import { overrideOutcome, overrideUrlError } from "@/lib/overrides";
+import { cheapestOffer, formatPrice } from "@/lib/prices";
+import { DEFAULT_PROVIDER_IDS, PROVIDER_META } from "@/lib/providers/meta";
+import type { ProviderMeta } from "@/lib/providers/types";
+import type { CollectionFormat } from "@/lib/collection";
+import {
+  isApiErrorBody,
+  isFailed,
+  isMatched,
+  SHARE_EXPIRY_DAYS,
+  SKIP_REASON_LABELS,
+  type BundleSuggestion,
+  type DiffMode,
+  type DiffSummary,
+  type ErrorCode,
+  type ResolvedSource,
+  type ShareExpiry,
+  type ShareResponse,
+  type SkippedItem,
+  type StoreOutcome,
+  type StreamEvent,
+  type TrackResult,
+} from "@/lib/api";
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/export";
+import { SOURCE_LABELS, StoreButtons, StoreDetails } from "@/components/results";
+import { ShoppingList } from "@/components/shopping";
+
+/** A result row; alternates picked on the page replace its matches */
+type Row = TrackResult;
+
+type CollectionSummary = { name: string; format: CollectionFormat; tracks: number; importedAt: number };
+
+const COLLECTION_LABELS: Record<CollectionFormat, string> = {
+  itunes: "iTunes library",
+  rekordbox: "Rekordbox collection",
+  m3u: "M3U playlist",
+};
+
+type SpotifyUser = { id: string; name: string };
+type UserPlaylist = { id: string; name: string; owner: string; tracks: number; collaborative: boolean; private: boolean };
+
+const LIKED_SONGS_URI = "spotify:collection:tracks";
+
+const EXPORT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  tsv: "TSV (spreadsheets)",
+  json: "JSON",
+  m3u8: "M3U8 playlist",
+  html: "Shopping list (HTML)",
+  md: "Shopping list (Markdown)",
+};
+
+function expiryLabel(days: ShareExpiry) {
+  return days == null ? "link that doesn't expire" : `link for ${days} day${days === 1 ? "" : "s"}`;
+}
+
+/** Picking "automatic" again also forgets what /go/apple saw, so it starts detecting afresh */
+function saveApplePreference(preference: ApplePreference) {
+  const year = 365 * 24 * 60 * 60;
+  document.cookie = `${APPLE_PREFERENCE_COOKIE}=${preference}; path=/; max-age=${year}; samesite=lax`;
+  if (preference === "auto") document.cookie = `${APPLE_SEEN_COOKIE}=; path=/; max-age=0`;
+}
+
+const LIBRARY_KEY = "speebee_library";
+
+function readStoredLibrary() {
+  try {
+    return window.localStorage.getItem(LIBRARY_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function parseStoredLibrary(raw: string | null): Library {
+  try {
+    return raw ? parseLibrary(JSON.parse(raw)) : EMPTY_LIBRARY;
+  } catch {
+    return EMPTY_LIBRARY;
+  }
+}
+
+const readLocalLibrary = () => parseStoredLibrary(readStoredLibrary());
+
+/**
+ * For useSyncExternalStore over this browser's storage: the server and the
+ * hydrating render see the fallback, the browser re-renders with what's saved.
+ * Changes made here go through state, so there's nothing to subscribe to.
+ */
+const noSubscription = () => () => {};
+
+/** Mirror to the server when connected; the local copy is the one we read on load */
+function persistLibrary(library: Library, sync: boolean) {
+  try {
+    window.localStorage.setItem(LIBRARY_KEY, JSON.stringify(library));
+  } catch {
+    // Private mode or full storage: keep going with the in-memory copy
+  }
+  if (sync) {
+    void fetch("/api/library", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(library),
+    }).catch(() => {});
+  }
+}
+
+/** What to tell the user for each error code; falls back to the server's message */
+const ERROR_HINTS: Partial<Record<ErrorCode, string>> = {
+  INVALID_LINK:
+    "That doesn't look like a Spotify playlist, album, track or artist link. In Spotify use Share → Copy link and paste that.",
+  PLAYLIST_NOT_FOUND:
+    "Spotify couldn't find that. If it's a private or collaborative playlist, use Connect Spotify above; otherwise check the link still works.",
+  LOGIN_REQUIRED: "Connect Spotify above to read your Liked Songs.",
+  SPOTIFY_AUTH_FAILED: "Spotify turned down our login. Try again; if you're connected, Disconnect and connect again.",
+  UPSTREAM_RATE_LIMITED: "Spotify or one of the stores is rate-limiting us. Wait a minute and try again.",
+  UPSTREAM_UNAVAILABLE: "Spotify didn't answer properly. Try again in a moment.",
+  SERVER_MISCONFIGURED: "This server is missing its Spotify app credentials (see Configuration in the README).",
+};
+
+function errorHint(code: ErrorCode, message: string) {
+  return ERROR_HINTS[code] ?? message;
+}
+
+const ALL_PROVIDERS: ProviderMeta[] = Object.values(PROVIDER_META);
+
+const COUNTRIES = [
+  { code: "US", label: "United States" },
+  { code: "GB", label: "United Kingdom" },
+  { code: "CA", label: "Canada" },
+  { code: "AU", label: "Australia" },
+  { code: "DE", label: "Germany" },
+  { code: "FR", label: "France" },
+  { code: "ES", label: "Spain" },
+  { code: "IT", label: "Italy" },
+  { code: "NL", label: "Netherlands" },
+  { code: "SE", label: "Sweden" },
+  { code: "JP", label: "Japan" },
+  { code: "BR", label: "Brazil" },
+];
+
+type HomeProps = {
+  /** From the cookie the preference control sets */
+  applePreference: ApplePreference;
+  /** Bounced back from the login callback in the query string */
+  loginError: string | null;
+};
+
+/** The whole tool; app/page.tsx passes in what it read from the request */
+export default function Home(props: HomeProps) {
+  const [url, setUrl] = useState("");
+  const [country, setCountry] = useState("GB");
+  const [loading, setLoading] = useState(false);
+  // Indexed by playlist position; holes are tracks still being looked up
+  const [slots, setSlots] = useState<(Row | undefined)[]>([]);
+  const [total, setTotal] = useState(0);
+  const [source, setSource] = useState<ResolvedSource | null>(null);
+  const [refresh, setRefresh] = useState(false);
+  // Extra storefronts to compare prices against; `country` is always first
+  const [compare, setCompare] = useState<string[]>([]);
+  const [storeCountries, setStoreCountries] = useState<string[]>([]);
+  const [providerIds, setProviderIds] = useState<string[]>(DEFAULT_PROVIDER_IDS);
+  // The providers the current results were produced with
+  const [activeProviders, setActiveProviders] = useState<ProviderMeta[]>([]);
+  // Full run or only what's new; the route remembers each playlist's previous run
+  const [mode, setMode] = useState<DiffMode>("full");
+  const [since, setSince] = useState("");
+  const [diff, setDiff] = useState<DiffSummary | null>(null);
+  // Playlist entries that aren't searchable tracks (episodes, unavailable, …)
+  const [skipped, setSkipped] = useState<SkippedItem[]>([]);
+  // Releases several matches come from, priced by the route after the last track
+  const [bundles, setBundles] = useState<BundleSuggestion[]>([]);
+  // An error bounced back from the login callback shows straight away
+  const [error, setError] = useState<string | null>(
+    props.loginError ? `Spotify login failed (${props.loginError})` : null
+  );
+  const [user, setUser] = useState<SpotifyUser | null>(null);
+  const [playlists, setPlaylists] = useState<UserPlaylist[]>([]);
+  // Tracks already bought; dimmed in results, or hidden with `hideOwned`
+  const storedLibrary = useSyncExternalStore(noSubscription, readStoredLibrary, () => null);
+  const [editedLibrary, setLibrary] = useState<Library | null>(null);
+  const library = useMemo(() => editedLibrary ?? parseStoredLibrary(storedLibrary), [editedLibrary, storedLibrary]);
+  const [hideOwned, setHideOwned] = useState(false);
+  // Uploaded files the results are checked against; the tracks stay on the server
+  const [collection, setCollection] = useState<CollectionSummary | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [share, setShare] = useState<ShareResponse | null>(null);
+  const [sharing, setSharing] = useState(false);
+  // Overrides change everyone's results, so only a browser holding the admin key gets the controls
+  const canFixMatches = useSyncExternalStore(noSubscription, () => !!readAdminKey(), () => false);
+  const [applePreference, setApplePreference] = useState<ApplePreference>(props.applePreference);
+
+  // Pick up the uploaded collection and a connected Spotify account
+  useEffect(() => {
+    fetch("/api/collection")
+      .then((r) => (r.ok ? r.json() : { collection: null }))
+      .then((data: { collection: CollectionSummary | null }) => setCollection(data.collection))
+      .catch(() => {});
+
+    // The error is already in state; don't show it again on reload
+    if (new URLSearchParams(window.location.search).has("login_error")) {
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+    fetch("/api/me")
+      .then((r) => (r.ok ? r.json() : { user: null }))
+      .then(async (data: { user: SpotifyUser | null }) => {
+        setUser(data.user);
+        if (!data.user) return;
+        const res = await fetch("/api/me/playlists");
+        if (res.ok) setPlaylists((await res.json()).playlists ?? []);
+        // Bring in purchases marked in other browsers, and send ours the other way
+        const lib = await fetch("/api/library");
+        if (!lib.ok) return;
+        const merged = mergeLibraries(readLocalLibrary(), parseLibrary((await lib.json()).library));
+        setLibrary(merged);
+        persistLibrary(merged, true);
+      })
+      .catch(() => {});
+  }, []);
+
+  const rows = useMemo(() => slots.filter((r): r is Row => !!r), [slots]);
+  // Rows arrive out of order and "hide owned" filters them, so they're keyed by stream index
+  const streamIndex = useMemo(() => new Map(slots.map((r, i) => [r, i])), [slots]);
+  const visibleRows = useMemo(
+    () => (hideOwned ? rows.filter((r) => !findOwned(library, r) && !r.inLibrary) : rows),
+    [rows, hideOwned, library]
+  );
+  const matchedCount = useMemo(() => rows.filter(isMatched).length, [rows]);
+  // What's left to buy, still indexed like the stream so bundles line up
+  const toBuy = useMemo(
+    () => slots.map((r) => (r && !findOwned(library, r) && !r.inLibrary ? r : undefined)),
+    [slots, library]
+  );
+
+  /** What buying every available track would cost in each storefront, per store that has storefronts */
+  const countryTotals = useMemo(() => {
+    return activeProviders
+      .filter((p) => p.perCountry && storeCountries.length > 1)
+      .map((p) => {
+        const totals = storeCountries.map((c) => ({ country: c, price: 0, currency: null as string | null, available: 0 }));
+        for (const r of rows) {
+          for (const o of r.stores[p.id]?.storefronts ?? []) {
+            const t = totals.find((x) => x.country === o.country);
+            if (!t || o.price == null || !o.currency) continue;
+            t.price += o.price;
+            t.currency = o.currency;
+            t.available++;
+          }
+        }
+        // A store missing half the tracks isn't "cheaper", so only compare the most complete ones
+        const most = Math.max(0, ...totals.map((t) => t.available));
+        const cheapest = cheapestOffer(totals.filter((t) => t.available === most));
+        return { provider: p, totals, cheapest };
+      })
+      .filter((g) => g.totals.some((t) => t.available > 0));
+  }, [rows, storeCountries, activeProviders]);
+
+  const countryName = useMemo(
+    () => COUNTRIES.find((c) => c.code === country)?.label ?? country,
+    [country]
+  );
+
+  async function handleGenerate() {
+    setLoading(true);
+    setError(null);
+    setSlots([]);
+    setTotal(0);
+    setSource(null);
+    setStoreCountries([]);
+    setActiveProviders([]);
+    setDiff(null);
+    setSkipped([]);
+    setBundles([]);
+    setShare(null);
+    try {
+      const res = await fetch(refresh ? "/api/playlist?refresh=1" : "/api/playlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          playlistUrl: url,
+          country,
+          countries: [country, ...compare.filter((c) => c !== country)],
+          providers: providerIds,
+          mode,
+          ...(mode === "since_date" ? { since } : {}),
+        }),
+      });
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => null);
+        throw new Error(isApiErrorBody(data) ? errorHint(data.code, data.error) : "Request failed");
+      }
+
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+      let finished = false;
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const ev = JSON.parse(line) as StreamEvent;
+          if (ev.type === "start") {
+            setTotal(ev.total);
+            setSource(ev.source);
+            setStoreCountries(ev.countries);
+            setActiveProviders(ev.providers);
+            setDiff(ev.diff);
+            setSkipped(ev.skipped);
+            setSlots(new Array(ev.total).fill(undefined));
+          } else if (ev.type === "track") {
+            setSlots((prev) => {
+              const next = prev.slice();
+              next[ev.index] = ev.result;
+              return next;
+            });
+          } else if (ev.type === "bundles") {
+            setBundles(ev.bundles);
+          } else if (ev.type === "done") {
+            finished = true;
+          } else if (ev.type === "error") {
+            throw new Error(errorHint(ev.code, ev.error));
+          }
+        }
+      }
+      if (!finished) throw new Error("Connection dropped before all tracks were checked");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Something went wrong");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /** Swap a store's linked match for one of its alternates */
+  function pickAlternate(row: Row, providerId: string, altIndex: number) {
+    const store = row.stores[providerId];
+    const chosen = store?.alternates[altIndex];
+    if (!chosen) return;
+    const alternates = store.alternates.filter((_, i) => i !== altIndex);
+    if (store.match) alternates.unshift(store.match);
+    const next: Row = {
+      ...row,
+      stores: {
+        ...row.stores,
+        [providerId]: {
+          ...store,
+          status: "matched",
+          match: chosen,
+          strategy: null,
+          alternates,
+          storefronts: store.storefronts?.map((o, i) =>
+            i === 0 ? { ...o, status: "matched", price: chosen.price, currency: chosen.currency, url: chosen.url } : o
+          ),
+        },
+      },
+    };
+    setSlots((prev) => prev.map((r) => (r === row ? next : r)));
+  }
+
+  function replaceStore(row: Row, providerId: string, outcome: StoreOutcome) {
+    const next: Row = { ...row, stores: { ...row.stores, [providerId]: outcome } };
+    setSlots((prev) => prev.map((r) => (r === row ? next : r)));
+  }
+
+  /** Remember the right link (or "no match") for every later run, and show it now; returns an error to show */
+  async function saveOverride(row: Row, provider: ProviderMeta, url: string | null) {
+    const res = await fetch("/api/overrides", {
+      method: "POST",
+      headers: adminHeaders(),
+      body: JSON.stringify({
+        providerId: provider.id,
+        trackId: row.id,
+        isrc: row.isrc ?? null,
+        title: row.title,
+        artist: row.artist,
+        url,
+      }),
+    }).catch(() => null);
+    const data = await res?.json().catch(() => null);
+    if (!res?.ok) return isApiErrorBody(data) ? data.error : "Couldn't save the override";
+    const searchUrl = row.stores[provider.id]?.searchUrl ?? "";
+    replaceStore(row, provider.id, overrideOutcome(url, row, searchUrl));
+    return null;
+  }
+
+  /** Forget an override; the store goes back to searching on the next run */
+  async function clearOverride(row: Row, provider: ProviderMeta) {
+    const res = await fetch("/api/overrides", {
+      method: "DELETE",
+      headers: adminHeaders(),
+      body: JSON.stringify({ providerId: provider.id, trackId: row.id, isrc: row.isrc ?? null }),
+    }).catch(() => null);
+    if (!res?.ok) return setError("Couldn't remove the override");
+    const store = row.stores[provider.id];
+    replaceStore(row, provider.id, { ...store, status: "unchecked", match: null, strategy: null });
+  }
+
+  function toggleCompare(code: string) {
+    setCompare((prev) => (prev.includes(code) ? prev.filter((c) => c !== code) : [...prev, code]));
+  }
+
+  function updateLibrary(next: Library) {
+    setLibrary(next);
+    persistLibrary(next, !!user);
+  }
+
+  function exportLibrary() {
+    const blob = new Blob([JSON.stringify(library, null, 2)], { type: "application/json" });
+    const dl = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = dl;
+    a.download = "speebee_library.json";
+    a.click();
+    URL.revokeObjectURL(dl);
+  }
+
+  async function importLibrary(file: File) {
+    try {
+      updateLibrary(mergeLibraries(library, parseLibrary(JSON.parse(await file.text()))));
+    } catch {
+      setError("That file isn't a library export");
+    }
+  }
+
+  async function uploadCollection(file: File) {
+    setUploading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/collection?name=${encodeURIComponent(file.name)}`, { method: "POST", body: file });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(isApiErrorBody(data) ? data.error : "Upload failed");
+      setCollection(data.collection);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Upload failed");
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function removeCollection() {
+    await fetch("/api/collection", { method: "DELETE" }).catch(() => {});
+    setCollection(null);
+  }
+
+  async function disconnectSpotify() {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => {});
+    setUser(null);
+    setPlaylists([]);
+  }
+
+  function toggleProvider(id: string) {
+    setProviderIds((prev) => (prev.includes(id) ? prev.filter((p) => p !== id) : [...prev, id]));
+  }
+
+  /** Freeze the rows we have (picked alternates included) behind a /r/{id} link */
+  async function shareResults(expiresInDays: ShareExpiry) {
+    if (!source) return;
+    setSharing(true);
+    try {
+      const res = await fetch("/api/share", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          source,
+          countries: storeCountries,
+          providers: activeProviders.map((p) => p.id),
+          rows,
+          expiresInDays,
+        }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(isApiErrorBody(data) ? data.error : "Sharing failed");
+      setShare(data as ShareResponse);
+      await navigator.clipboard.writeText((data as ShareResponse).url).catch(() => {});
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Sharing failed");
+    } finally {
+      setSharing(false);
+    }
+  }
+
+  /** The server formats the rows we have, alternates picked here included */
+  async function downloadExport(format: ExportFormat) {
+    try {
+      const res = await fetch(`/api/export?format=${format}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: source?.name,
+          country: storeCountries[0] ?? country,
+          providers: activeProviders.map((p) => p.id),
+          rows,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Export failed");
+      }
+      const filename =
+        res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `playlist_links.${format}`;
+      const dl = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = dl;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(dl);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Export failed");
+    }
+  }
+
+  return (
+    <main className="min-h-screen pt-20 md:pt-28">
+      <div className="mx-auto max-w-3xl px-4 py-8 md:py-12 space-y-6">
+        {/* Header */}
+        <header className="space-y-4">
+          {/* Title links to Instagram */}
+          <a
+            href="http://instagram.com/speelburg"
+            target="_blank"
+            rel="noreferrer"
+            className="h1-words unstyled-link"
+            title="Follow SPEELBURG on Instagram"
+          >
+            <span>S</span>
+            <span>P</span>
+            <span>E</span>
+            <span>E</span>
+            <span>B</span>
+            <span>E</span>
+            <span>E</span>
+
+          </a>
+
+          <div className="header-just space-y-2 text-sm md:text-base opacity-90 leading-relaxed">
+            <p className="mb-0">
+              a quick way for DJs, collectors, and fans to buy their favorite tracks
+            </p>
+
+            {/* byline: tighter gap above, big gap below preserved */}
+            <p className="no-justify text-sm md:text-base -mt-2 mb-8 md:mb-12">
+              by&nbsp;&nbsp;
+              <a
+                href="http://instagram.com/speelburg"
+                target="_blank"
+                rel="noreferrer"
+                className="link-blue"
+                title="SPEELBURG on Instagram"
+              >
+                speelburg
+              </a>
+            </p>
+
+            <p className="no-justify text-xs opacity-80 -mt-6 mb-6">
+              got an apple music or bandcamp link instead?{" "}
+              <Link href="/to-spotify" className="link-blue">
+                find it on spotify
+              </Link>
+              {" · "}
+              <Link href="/overrides" className="link-blue">
+                matches fixed by hand
+              </Link>
+            </p>
+
+
+
+          </div>
+        </header>
+
+        {/* Controls panel */}
+        <section className="rounded-2xl p-4 md:p-5 panel-surface psd-shadow -mt-4 md:-mt-6">
+          <div className="mb-3 flex flex-wrap items-center gap-2 text-sm">
+            {user ? (
+              <>
+                <span className="opacity-80">
+                  Connected as <span className="font-medium">{user.name}</span>
+                </span>
+                <select
+                  className="flex-1 min-w-0 rounded-lg px-2 py-1 text-sm"
+                  style={{ background: "var(--panel)", border: "1px solid var(--border)" }}
+                  value=""
+                  onChange={(e) => setUrl(e.target.value)}
+                  title="Pick one of your playlists"
+                >
+                  <option value="" disabled>
+                    your playlists…
+                  </option>
+                  <option value={LIKED_SONGS_URI}>Liked Songs</option>
+                  {playlists.map((p) => (
+                    <option key={p.id} value={`https://open.spotify.com/playlist/${p.id}`}>
+                      {p.name} ({p.tracks}){p.collaborative ? " · collaborative" : p.private ? " · private" : ""}
+                    </option>
+                  ))}
+                </select>
+                <button onClick={disconnectSpotify} className="rounded-lg px-3 py-1 text-sm btn-outline">
+                  Disconnect
+                </button>
+              </>
+            ) : (
+              <a
+                href="/api/auth/login"
+                className="rounded-lg px-3 py-1 text-sm btn-outline"
+                title="Log in to read private and collaborative playlists and your Liked Songs"
+              >
+                Connect Spotify
+              </a>
+            )}
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-3 sm:items-stretch">
+            {/* URL input */}
+            <input
+              className="flex-1 rounded-xl px-4 py-3 text-base w-full md:h-12 md:py-0"
+              style={{ background: "var(--panel)", border: "1px solid var(--border)" }}
+              placeholder="paste spotify playlist, album, track or artist link here"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+
+            {/* Country + Generate */}
+            <div className="w-full sm:w-auto flex flex-col sm:flex-row gap-2 sm:items-stretch">
+              <select
+                className="rounded-xl px-4 py-3 text-base w-full sm:w-auto sm:min-w-[14rem] md:h-12 md:py-0"
+                style={{ background: "var(--panel)", border: "1px solid var(--border)" }}
+                value={country}
+                onChange={(e) => setCountry(e.target.value)}
+                title="Select your iTunes Store region"
+              >
+                {COUNTRIES.map((c) => (
+                  <option key={c.code} value={c.code}>
+                    {c.code} — {c.label}
+                  </option>
+                ))}
+              </select>
+
+              <button
+                onClick={handleGenerate}
+                disabled={loading || !url || (mode === "since_date" && !since)}
+                className="rounded-xl px-5 py-3 text-base disabled:opacity-50 btn-solid w-full sm:w-auto whitespace-nowrap md:h-12 md:py-0"
+              >
+                {loading ? "Working..." : "Generate"}
+              </button>
+            </div>
+          </div>
+
+          <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-xs opacity-80">
+            <div>
+              Current store: <span className="font-medium">{countryName}</span>
+            </div>
+            <div className="flex flex-wrap items-center gap-1">
+              compare with:
+              {COUNTRIES.filter((c) => c.code !== country).map((c) => (
+                <button
+                  key={c.code}
+                  type="button"
+                  onClick={() => toggleCompare(c.code)}
+                  className={`rounded px-1.5 py-0.5 ${compare.includes(c.code) ? "btn-solid" : "btn-outline"}`}
+                  title={`Also check prices in ${c.label}`}
+                >
+                  {c.code}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-1">
+              stores:
+              {ALL_PROVIDERS.map((p) => (
+                <button
+                  key={p.id}
+                  type="button"
+                  onClick={() => toggleProvider(p.id)}
+                  className={`rounded px-1.5 py-0.5 ${providerIds.includes(p.id) ? "btn-solid" : "btn-outline"}`}
+                  title={`Look tracks up on ${p.label}`}
+                >
+                  {p.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-1">
+              show:
+              {(
+                [
+                  ["full", "all tracks"],
+                  ["since_last", "new since last run"],
+                  ["since_date", "added since"],
+                ] as const
+              ).map(([m, label]) => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => setMode(m)}
+                  className={`rounded px-1.5 py-0.5 ${mode === m ? "btn-solid" : "btn-outline"}`}
+                  title={m === "full" ? "Every track in the link" : "Only for playlists and Liked Songs"}
+                >
+                  {label}
+                </button>
+              ))}
+              {mode === "since_date" && (
+                <input
+                  type="date"
+                  className="rounded px-1.5 py-0.5"
+                  style={{ background: "var(--panel)", border: "1px solid var(--border)" }}
+                  value={since}
+                  onChange={(e) => setSince(e.target.value)}
+                />
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              library: {library.tracks.length} owned
+              <label className="flex items-center gap-1 cursor-pointer" title="Leave tracks you've bought out of the results">
+                <input type="checkbox" checked={hideOwned} onChange={(e) => setHideOwned(e.target.checked)} />
+                hide owned
+              </label>
+              <button type="button" onClick={exportLibrary} className="underline" title="Download your library as JSON">
+                export
+              </button>
+              <label className="underline cursor-pointer" title="Add purchases from a library JSON export">
+                import
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) void importLibrary(file);
+                  }}
+                />
+              </label>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              {collection ? (
+                <>
+                  <span title={collection.name}>
+                    collection: {collection.tracks} tracks from {COLLECTION_LABELS[collection.format]}
+                  </span>
+                  <button type="button" onClick={removeCollection} className="underline">
+                    remove
+                  </button>
+                </>
+              ) : (
+                "collection: none"
+              )}
+              <label
+                className="underline cursor-pointer"
+                title="iTunes/Music Library.xml, Rekordbox XML or an M3U/M3U8 playlist; matched tracks show as already in library"
+              >
+                {uploading ? "uploading…" : collection ? "replace" : "upload"}
+                <input
+                  type="file"
+                  accept=".xml,.m3u,.m3u8,application/xml,text/xml,audio/x-mpegurl"
+                  className="hidden"
+                  disabled={uploading}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) void uploadCollection(file);
+                  }}
+                />
+              </label>
+            </div>
+            <label className="flex items-center gap-1 cursor-pointer" title="Ignore cached store lookups for this run">
+              <input type="checkbox" checked={refresh} onChange={(e) => setRefresh(e.target.checked)} />
+              skip cache
+            </label>
+            <label className="flex items-center gap-1" title="How iTunes Store buttons open on this device">
+              iTunes links open in
+              <select
+                className="rounded-lg px-2 py-1"
+                style={{ background: "var(--panel)", border: "1px solid var(--border)" }}
+                value={applePreference}
+                onChange={(e) => {
+                  const preference = e.target.value as ApplePreference;
+                  setApplePreference(preference);
+                  saveApplePreference(preference);
+                }}
+              >
+                {(Object.keys(APPLE_OPENER_LABELS) as ApplePreference[]).map((p) => (
+                  <option key={p} value={p}>
+                    {APPLE_OPENER_LABELS[p]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </section>
+
+        {/* Single centered footer link */}
+        <div className="bottom-bar single">
+          <a
+            href="https://open.spotify.com/artist/0bn8cJWYNORYFzNUxTb8n1?si=Q_vEu-VtSbiDUfQsFYAxfA"
+            target="_blank"
+            rel="noreferrer"
+            title="Listen to Silver Medal Slump by SPEELBURG"
+          >
+            i made an album called &nbsp;&nbsp;
+            <span className="blue">silver &nbsp; medal &nbsp; slump</span>
+          </a>
+        </div>
+
+        {/* Error */}
+        {error && (
+          <div
+            className="rounded-xl p-3 text-sm"
+            style={{
+              border: "1px solid var(--border)",
+              background: "color-mix(in oklab, var(--panel), #ff0000 10%)",
+              color: "var(--foreground)",
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        {/* What changed since the previous run */}
+        {diff && !loading && <DiffNotice diff={diff} added={rows.length} />}
+        {!!skipped.length && <SkippedNotice skipped={skipped} country={storeCountries[0] ?? country} />}
+
+        {/* Results list */}
+        {(!!rows.length || (loading && total > 0)) && (
+          <section className="rounded-2xl overflow-hidden panel-surface psd-shadow">
+            <div
+              className="flex items-center justify-between px-4 py-3"
+              style={{ borderBottom: "1px solid var(--border)" }}
+            >
+              <div className="text-sm opacity-80 min-w-0 truncate">
+                {source && (
+                  <span title={source.name}>
+                    {SOURCE_LABELS[source.kind]}: <span className="font-medium">{source.name}</span>
+                    {" · "}
+                  </span>
+                )}
+                {loading
+                  ? `${rows.length} / ${total} checked · ${matchedCount} matched`
+                  : `${matchedCount} / ${rows.length} matched`}
+                {hideOwned && rows.length > visibleRows.length && ` · ${rows.length - visibleRows.length} owned hidden`}
+              </div>
+              <div className="flex gap-2">
+                <select
+                  className="rounded-lg px-3 py-2 text-sm btn-outline disabled:opacity-50"
+                  value="-"
+                  disabled={!rows.length || loading || sharing}
+                  onChange={(e) =>
+                    void shareResults(e.target.value === "never" ? null : (Number(e.target.value) as ShareExpiry))
+                  }
+                  title="Save these results behind a link to send to someone"
+                >
+                  <option value="-" disabled>
+                    {sharing ? "Sharing…" : "Share…"}
+                  </option>
+                  {SHARE_EXPIRY_DAYS.map((days) => (
+                    <option key={days ?? "never"} value={days ?? "never"}>
+                      {expiryLabel(days)}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className="rounded-lg px-3 py-2 text-sm btn-outline disabled:opacity-50"
+                  value=""
+                  disabled={!rows.length || loading}
+                  onChange={(e) => void downloadExport(e.target.value as ExportFormat)}
+                  title="Download these results"
+                >
+                  <option value="" disabled>
+                    Download…
+                  </option>
+                  {EXPORT_FORMATS.map((f) => (
+                    <option key={f} value={f}>
+                      {EXPORT_LABELS[f]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {share && (
+              <div
+                className="flex flex-wrap items-center gap-2 px-4 py-2 text-xs"
+                style={{ borderBottom: "1px solid var(--border)" }}
+              >
+                <span className="opacity-80">share link (copied):</span>
+                <a href={share.url} target="_blank" rel="noreferrer" className="link-blue truncate">
+                  {share.url}
+                </a>
+                <span className="opacity-70">
+                  {share.expiresAt ? `until ${new Date(share.expiresAt).toLocaleDateString()}` : "doesn't expire"}
+                </span>
+              </div>
+            )}
+
+            {countryTotals.map(({ provider, totals, cheapest }) => (
+              <div
+                key={provider.id}
+                className="flex flex-wrap gap-x-4 gap-y-1 px-4 py-2 text-xs"
+                style={{ borderBottom: "1px solid var(--border)" }}
+              >
+                <span className="opacity-80">{provider.label}:</span>
+                {totals.map((t) => (
+                  <span
+                    key={t.country}
+                    className={t === cheapest ? "font-semibold" : "opacity-80"}
+                    title={`${t.available} of ${rows.length} tracks priced in ${t.country}`}
+                  >
+                    {t.country} {t.currency ? formatPrice(t.price, t.currency) : "—"} ({t.available}/{rows.length})
+                    {t === cheapest && " · cheapest"}
+                  </span>
+                ))}
+              </div>
+            ))}
+
+            <ul>
+              {visibleRows.map((r, i) => {
+                const owned = findOwned(library, r);
+                return (
+                  <li
+                    key={streamIndex.get(r)}
+                    className={`px-4 py-4 ${owned || r.inLibrary ? "opacity-50" : ""}`}
+                    style={{ borderTop: i === 0 ? "none" : "1px solid var(--border)" }}
+                  >
+                    <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                      <div className="min-w-0">
+                        <div className="text-base md:text-lg font-semibold truncate" title={r.title}>
+                          {r.title}
+                        </div>
+                        <div className="text-sm opacity-90 truncate" title={r.artist}>
+                          {r.artist}
+                        </div>
+                        {r.local && (
+                          <div className="text-xs opacity-70">local file: matched on its title and artist only</div>
+                        )}
+                        {r.album && (
+                          <div className="text-xs opacity-70 truncate" title={r.album}>
+                            {r.album}
+                            {r.releaseDate ? ` · ${r.releaseDate.slice(0, 4)}` : ""}
+                          </div>
+                        )}
+                        {isFailed(r) && (
+                          <div className="text-xs opacity-70" title={r.error}>
+                            {activeProviders
+                              .filter((p) => r.stores[p.id]?.status === "failed")
+                              .map((p) => p.label)
+                              .join(" + ")}{" "}
+                            lookup failed, try again later
+                          </div>
+                        )}
+                        {!isFailed(r) && !isMatched(r) && (
+                          <div className="text-xs opacity-70">no match found</div>
+                        )}
+                        {r.inLibrary && (
+                          <div className="text-xs opacity-80 truncate" title={r.inLibrary.file ?? undefined}>
+                            already in library
+                            {r.inLibrary.file ? `: ${r.inLibrary.file.split(/[\\/]/).pop()}` : ` (${r.inLibrary.title})`}
+                          </div>
+                        )}
+                        <OwnedControl
+                          boughtOn={owned?.boughtOn ?? null}
+                          onMark={(on) => updateLibrary(markOwned(library, r, on))}
+                          onUnmark={() => updateLibrary(unmarkOwned(library, r))}
+                        />
+                        {activeProviders.map((p) =>
+                          r.stores[p.id] ? (
+                            <StoreDetails
+                              key={p.id}
+                              provider={p}
+                              store={r.stores[p.id]}
+                              onPick={(j) => pickAlternate(r, p.id, j)}
+                            />
+                          ) : null
+                        )}
+                        {canFixMatches && (r.id || r.isrc) && (
+                          <OverrideControl
+                            providers={activeProviders.filter((p) => r.stores[p.id])}
+                            overridden={activeProviders.filter((p) => r.stores[p.id]?.strategy === "override")}
+                            onSave={(p, link) => saveOverride(r, p, link)}
+                            onClear={(p) => void clearOverride(r, p)}
+                          />
+                        )}
+                      </div>
+
+                      <StoreButtons row={r} providers={activeProviders} country={storeCountries[0] ?? country} />
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        )}
+
+        {!loading && !!rows.length && <ShoppingList results={toBuy} bundles={bundles} providers={activeProviders} />}
+      </div>
+    </main>
+  );
+}
+
+/** "owned · iTunes" with an undo, or a picker to mark the row bought */
+function OwnedControl({
+  boughtOn,
+  onMark,
+  onUnmark,
+}: {
+  boughtOn: BoughtOn | null;
+  onMark: (on: BoughtOn) => void;
+  onUnmark: () => void;
+}) {
+  if (boughtOn) {
+    return (
+      <div className="text-xs opacity-80">
+        owned · bought on {BOUGHT_ON_LABELS[boughtOn]}{" "}
+        <button type="button" onClick={onUnmark} className="underline">
+          unmark
+        </button>
+      </div>
+    );
+  }
+  return (
+    <select
+      className="mt-1 rounded-lg px-2 py-1 text-xs"
+      style={{ background: "var(--panel)", border: "1px solid var(--border)" }}
+      value=""
+      onChange={(e) => onMark(e.target.value as BoughtOn)}
+      title="Remember that you own this track"
+    >
+      <option value="" disabled>
+        mark bought…
+      </option>
+      {BOUGHT_ON.map((on) => (
+        <option key={on} value={on}>
+          on {BOUGHT_ON_LABELS[on]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * "fix a match…": paste the right store link or say the store doesn't have
+ * it. Saved on the server and used instead of searching from then on.
+ */
+function OverrideControl({
+  providers,
+  overridden,
+  onSave,
+  onClear,
+}: {
+  providers: ProviderMeta[];
+  overridden: ProviderMeta[];
+  onSave: (provider: ProviderMeta, url: string | null) => Promise<string | null>;
+  onClear: (provider: ProviderMeta) => void;
+}) {
+  const [editing, setEditing] = useState<ProviderMeta | null>(null);
+  const [link, setLink] = useState("");
+  const [problem, setProblem] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  async function save(url: string | null) {
+    if (!editing) return;
+    const invalid = url != null ? overrideUrlError(editing.id, url) : null;
+    if (invalid) return setProblem(invalid);
+    setSaving(true);
+    const error = await onSave(editing, url);
+    setSaving(false);
+    setProblem(error);
+    if (!error) {
+      setEditing(null);
+      setLink("");
+    }
+  }
+
+  if (editing) {
+    return (
+      <div className="mt-1 flex flex-wrap items-center gap-2 text-xs">
+        <input
+          className="rounded-lg px-2 py-1 min-w-0 flex-1"
+          style={{ background: "var(--panel)", border: "1px solid var(--border)" }}
+          placeholder={`right ${editing.label} link`}
+          value={link}
+          onChange={(e) => setLink(e.target.value)}
+          autoFocus
+        />
+        <button
+          type="button"
+          className="underline"
+          disabled={saving || !link.trim()}
+          onClick={() => void save(link.trim())}
+        >
+          save
+        </button>
+        <button type="button" className="underline" disabled={saving} onClick={() => void save(null)}>
+          not on {editing.label}
+        </button>
+        <button type="button" className="underline" disabled={saving} onClick={() => setEditing(null)}>
+          cancel
+        </button>
+        {problem && <span className="w-full opacity-80">{problem}</span>}
+      </div>
+    );
+  }
+  return (
+    <div className="text-xs opacity-80">
+      {overridden.map((p) => (
+        <div key={p.id}>
+          {p.label} set by hand{" "}
+          <button type="button" onClick={() => onClear(p)} className="underline">
+            undo
+          </button>
+        </div>
+      ))}
+      <select
+        className="mt-1 rounded-lg px-2 py-1 text-xs"
+        style={{ background: "var(--panel)", border: "1px solid var(--border)" }}
+        value=""
+        onChange={(e) => {
+          setEditing(providers.find((p) => p.id === e.target.value) ?? null);
+          setProblem(null);
+        }}
+        title="Wrong release? Paste the right one; later runs use it too"
+      >
+        <option value="" disabled>
+          fix a match…
+        </option>
+        {providers.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+/** Entries left out of the results, counted by reason and listed by position */
+function SkippedNotice({ skipped, country }: { skipped: SkippedItem[]; country: string }) {
+  const counts = new Map<SkippedItem["reason"], number>();
+  for (const s of skipped) counts.set(s.reason, (counts.get(s.reason) ?? 0) + 1);
+  const label = (reason: SkippedItem["reason"]) =>
+    reason === "unavailable" ? `not available in ${country}` : SKIP_REASON_LABELS[reason];
+  return (
+    <section className="rounded-2xl px-4 py-3 panel-surface psd-shadow text-sm">
+      <details>
+        <summary className="cursor-pointer opacity-80">
+          {skipped.length} {skipped.length === 1 ? "entry" : "entries"} left out:{" "}
+          {[...counts].map(([reason, n]) => `${n} ${label(reason)}`).join(", ")}
+        </summary>
+        <ul className="mt-1 text-xs opacity-70">
+          {skipped.map((s) => (
+            <li key={s.position}>
+              #{s.position + 1} {s.title ?? "(unknown)"}
+              {s.artist ? ` — ${s.artist}` : ""} ({label(s.reason)})
+            </li>
+          ))}
+        </ul>
+      </details>
+    </section>
+  );
+}
+
+function DiffNotice({ diff, added }: { diff: DiffSummary; added: number }) {
+  const when = diff.previousRun ? new Date(diff.previousRun).toLocaleDateString() : null;
+  const heading =
+    diff.mode === "since_date"
+      ? `${added} added since ${diff.since?.slice(0, 10)}`
+      : when
+        ? diff.unchanged
+          ? `No changes since the last run (${when})`
+          : `${added} new since the last run (${when})`
+        : "First run of this playlist: everything counts as new. Next time only additions show up.";
+  return (
+    <section className="rounded-2xl px-4 py-3 panel-surface psd-shadow text-sm space-y-1">
+      <div className="opacity-80">{heading}</div>
+      {!!diff.removed.length && (
+        <details>
+          <summary className="cursor-pointer text-xs opacity-80">
+            {diff.removed.length} removed since {when ?? "the last run"}
+          </summary>
+          <ul className="mt-1 text-xs opacity-70">
+            {diff.removed.map((t, i) => (
+              <li key={`${t.id ?? t.title}-${i}`}>
+                {t.title} — {t.artist}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { adminHeaders, saveAdminKey } from "@/lib/admin-key";
+import { isApiErrorBody } from "@/lib/api";
+import { EMPTY_OVERRIDES, parseOverrides, type MatchOverride, type OverrideSet } from "@/lib/overrides";
+import { PROVIDER_META } from "@/lib/providers/meta";
+
+function providerLabel(id: string) {
+  return (PROVIDER_META as Record<string, { label: string }>)[id]?.label ?? id;
+}
+
+/** Every hand-picked match on this server, with import/export */
+export default function OverridesPage() {
+  const [set, setSet] = useState<OverrideSet>(EMPTY_OVERRIDES);
+  const [loaded, setLoaded] = useState(false);
+  const [filter, setFilter] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/overrides")
+      .then((r) => r.json())
+      .then((data: { overrides?: OverrideSet }) => setSet(data.overrides ?? EMPTY_OVERRIDES))
+      .catch(() => setError("Couldn't load the overrides"))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  const shown = useMemo(() => {
+    const q = filter.trim().toLowerCase();
+    const matches = (o: MatchOverride) =>
+      [o.title, o.artist, o.isrc ?? "", o.trackId ?? "", providerLabel(o.providerId)].some((v) =>
+        v.toLowerCase().includes(q)
+      );
+    return set.overrides.filter(matches).sort((a, b) => b.savedAt - a.savedAt);
+  }, [set, filter]);
+
+  /** Both endpoints answer with the whole set after the change */
+  async function send(method: "PUT" | "DELETE", body: unknown) {
+    setError(null);
+    const res = await fetch("/api/overrides", {
+      method,
+      headers: adminHeaders(),
+      body: JSON.stringify(body),
+    }).catch(() => null);
+    const data = await res?.json().catch(() => null);
+    if (!res?.ok) return setError(isApiErrorBody(data) ? data.error : "Request failed");
+    setSet(data.overrides);
+  }
+
+  function exportOverrides() {
+    const blob = new Blob([JSON.stringify(set, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "speebee_overrides.json";
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async function importOverrides(file: File) {
+    try {
+      await send("PUT", parseOverrides(JSON.parse(await file.text())));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Import failed");
+    }
+  }
+
+  return (
+    <main className="min-h-screen pt-20 md:pt-28">
+      <div className="mx-auto max-w-3xl px-4 py-8 md:py-12 space-y-6">
+        <header className="space-y-2">
+          <Link href="/" className="text-sm link-blue">
+            ← spotify to stores
+          </Link>
+          <h1 className="text-xl md:text-2xl font-semibold">match overrides</h1>
+          <p className="text-sm opacity-80">
+            links picked by hand with &quot;fix a match&quot;; every run on this server uses them instead of searching
+          </p>
+          <label className="flex flex-wrap items-center gap-2 text-sm">
+            admin key
+            <input
+              type="password"
+              className="rounded-lg px-2 py-1 min-w-0"
+              style={{ background: "var(--panel)", border: "1px solid var(--border)" }}
+              placeholder="from ADMIN_KEYS; kept in this browser"
+              autoComplete="off"
+              onChange={(e) => saveAdminKey(e.target.value.trim())}
+            />
+            <span className="text-xs opacity-70">needed to import, remove or fix matches</span>
+          </label>
+        </header>
+
+        <section className="rounded-2xl p-4 panel-surface psd-shadow flex flex-wrap items-center gap-3 text-sm">
+          <input
+            className="flex-1 min-w-0 rounded-xl px-3 py-2"
+            style={{ background: "var(--panel)", border: "1px solid var(--border)" }}
+            placeholder="filter by title, artist, ISRC or store"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+          />
+          <button
+            type="button"
+            onClick={exportOverrides}
+            disabled={!set.overrides.length}
+            className="rounded-lg px-3 py-2 btn-outline disabled:opacity-50"
+          >
+            Export
+          </button>
+          <label
+            className="rounded-lg px-3 py-2 btn-outline cursor-pointer"
+            title="Newer overrides win where both have the track"
+          >
+            Import
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) void importOverrides(file);
+              }}
+            />
+          </label>
+        </section>
+
+        {error && (
+          <div
+            className="rounded-xl p-3 text-sm"
+            style={{
+              border: "1px solid var(--border)",
+              background: "color-mix(in oklab, var(--panel), #ff0000 10%)",
+              color: "var(--foreground)",
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        {loaded && !set.overrides.length && <p className="text-sm opacity-80">no overrides yet</p>}
+
+        {!!shown.length && (
+          <section className="rounded-2xl overflow-hidden panel-surface psd-shadow">
+            <ul>
+              {shown.map((o, i) => (
+                <li
+                  key={`${o.providerId}-${o.trackId ?? o.isrc}`}
+                  className="px-4 py-3 flex items-start justify-between gap-3"
+                  style={{ borderTop: i === 0 ? "none" : "1px solid var(--border)" }}
+                >
+                  <div className="min-w-0 text-sm">
+                    <div className="font-semibold truncate" title={o.title}>
+                      {o.title || "(untitled)"} <span className="font-normal opacity-80">— {o.artist}</span>
+                    </div>
+                    <div className="truncate">
+                      {providerLabel(o.providerId)}:{" "}
+                      {o.url ? (
+                        <a href={o.url} target="_blank" rel="noreferrer" className="link-blue" title={o.url}>
+                          {o.url}
+                        </a>
+                      ) : (
+                        <span className="opacity-80">not in this store</span>
+                      )}
+                    </div>
+                    <div className="text-xs opacity-70">
+                      {[o.isrc && `ISRC ${o.isrc}`, o.trackId && `Spotify ${o.trackId}`].filter(Boolean).join(" · ")}
+                      {` · saved ${new Date(o.savedAt).toLocaleDateString()}`}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    className="text-xs underline whitespace-nowrap"
+                    onClick={() => void send("DELETE", { providerId: o.providerId, trackId: o.trackId, isrc: o.isrc })}
+                  >
+                    remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,101 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { SOURCE_LABELS, StoreButtons, StoreDetails } from "@/components/results";
+import { isFailed, isMatched, type SharedResult } from "@/lib/api";
+import { getShare } from "@/lib/share-store";
+
+type Props = { params: Promise<{ id: string }> };
+
+function summary(share: SharedResult) {
+  const matched = share.rows.filter(isMatched).length;
+  const stores = share.providers.map((p) => p.label).join(", ");
+  const tracks = `${share.rows.length} track${share.rows.length === 1 ? "" : "s"}`;
+  return `${tracks}, ${matched} found on ${stores || "the stores"} (${share.countries[0]})`;
+}
+
+/** Link previews show the playlist name, track count and Spotify cover */
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const share = await getShare((await params).id);
+  if (!share) return { title: "Link expired · SPEEBEE" };
+  const title = `${share.source.name} · SPEEBEE`;
+  const description = summary(share);
+  const images = share.imageUrl ? [share.imageUrl] : [];
+  return {
+    title,
+    description,
+    openGraph: { title, description, images, type: "website" },
+    twitter: { card: images.length ? "summary_large_image" : "summary", title, description, images },
+    // Shared lists are for whoever got the link, not for search engines
+    robots: { index: false },
+  };
+}
+
+/** Read-only copy of a result set someone shared */
+export default async function SharedResultsPage({ params }: Props) {
+  const share = await getShare((await params).id);
+  if (!share) notFound();
+
+  return (
+    <main className="min-h-screen pt-20 md:pt-28">
+      <div className="mx-auto max-w-3xl px-4 py-8 md:py-12 space-y-6">
+        <header className="flex items-start gap-4">
+          {share.imageUrl && (
+            // eslint-disable-next-line @next/next/no-img-element -- Spotify's CDN, not worth configuring next/image for
+            <img src={share.imageUrl} alt="" width={96} height={96} className="rounded-xl psd-shadow" />
+          )}
+          <div className="min-w-0 space-y-1">
+            <Link href="/" className="text-sm link-blue">
+              ← find your own
+            </Link>
+            <h1 className="text-xl md:text-2xl font-semibold truncate" title={share.source.name}>
+              {share.source.name}
+            </h1>
+            <p className="text-sm opacity-80">
+              {SOURCE_LABELS[share.source.kind]} · {summary(share)}
+            </p>
+            <p className="text-xs opacity-70">
+              shared {new Date(share.createdAt).toLocaleDateString()}
+              {share.expiresAt && ` · link works until ${new Date(share.expiresAt).toLocaleDateString()}`}
+            </p>
+          </div>
+        </header>
+
+        <section className="rounded-2xl overflow-hidden panel-surface psd-shadow">
+          <ul>
+            {share.rows.map((r, i) => (
+              <li
+                key={i}
+                className="px-4 py-4"
+                style={{ borderTop: i === 0 ? "none" : "1px solid var(--border)" }}
+              >
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                  <div className="min-w-0">
+                    <div className="text-base md:text-lg font-semibold truncate" title={r.title}>
+                      {r.title}
+                    </div>
+                    <div className="text-sm opacity-90 truncate" title={r.artist}>
+                      {r.artist}
+                    </div>
+                    {r.album && (
+                      <div className="text-xs opacity-70 truncate" title={r.album}>
+                        {r.album}
+                        {r.releaseDate ? ` · ${r.releaseDate.slice(0, 4)}` : ""}
+                      </div>
+                    )}
+                    {isFailed(r) && <div className="text-xs opacity-70">some stores couldn&apos;t be checked</div>}
+                    {!isFailed(r) && !isMatched(r) && <div className="text-xs opacity-70">no match found</div>}
+                    {share.providers.map((p) =>
+                      r.stores[p.id] ? <StoreDetails key={p.id} provider={p} store={r.stores[p.id]} /> : null
+                    )}
+                  </div>
+                  <StoreButtons row={r} providers={share.providers} country={share.countries[0]} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import { LOW_CONFIDENCE } from "@/lib/matching";
+import type { ForeignTrack } from "@/lib/reverse";
+import type { SpotifyCandidate } from "@/lib/spotify";
+
+type Result = ForeignTrack & {
+  match: SpotifyCandidate | null;
+  alternates: SpotifyCandidate[];
+  error?: string;
+};
+
+type Conversion = {
+  source: { service: "apple" | "bandcamp"; kind: string; name: string; url: string };
+  market: string;
+  truncated: boolean;
+  tracks: Result[];
+};
+
+const SERVICE_LABELS = { apple: "Apple Music", bandcamp: "Bandcamp" };
+
+function describe(c: SpotifyCandidate) {
+  const album = c.album ? ` (${c.album})` : "";
+  return `${c.title} — ${c.artist}${album} · ${Math.round(c.confidence * 100)}%`;
+}
+
+/** Apple Music / Bandcamp link in, Spotify track URIs out */
+export default function ToSpotifyPage() {
+  const [url, setUrl] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [data, setData] = useState<Conversion | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Picks made below change the list, so it's derived rather than taken from the response
+  const uris = useMemo(() => (data?.tracks ?? []).flatMap((t) => (t.match ? [t.match.uri] : [])), [data]);
+
+  async function handleConvert() {
+    setLoading(true);
+    setError(null);
+    setData(null);
+    setCopied(false);
+    try {
+      const res = await fetch("/api/to-spotify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error || "Request failed");
+      setData(json);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Something went wrong");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /** Swap a track's match for one of its alternates */
+  function pickAlternate(index: number, altIndex: number) {
+    setData((prev) => {
+      if (!prev) return prev;
+      const tracks = prev.tracks.map((t, i) => {
+        if (i !== index) return t;
+        const chosen = t.alternates[altIndex];
+        const alternates = t.alternates.filter((_, j) => j !== altIndex);
+        if (t.match) alternates.unshift(t.match);
+        return { ...t, match: chosen, alternates };
+      });
+      return { ...prev, tracks };
+    });
+    setCopied(false);
+  }
+
+  async function copyUris() {
+    await navigator.clipboard.writeText(uris.join("\n")).catch(() => {});
+    setCopied(true);
+  }
+
+  return (
+    <main className="min-h-screen pt-20 md:pt-28">
+      <div className="mx-auto max-w-3xl px-4 py-8 md:py-12 space-y-6">
+        <header className="space-y-2">
+          <Link href="/" className="text-sm link-blue">
+            ← spotify to stores
+          </Link>
+          <h1 className="text-xl md:text-2xl font-semibold">apple music / bandcamp → spotify</h1>
+          <p className="text-sm opacity-80">
+            paste an Apple Music album or playlist, or a Bandcamp album, and get the Spotify tracks to share
+          </p>
+        </header>
+
+        <section className="rounded-2xl p-4 md:p-5 panel-surface psd-shadow">
+          <div className="flex flex-col sm:flex-row gap-3 sm:items-stretch">
+            <input
+              className="flex-1 rounded-xl px-4 py-3 text-base w-full md:h-12 md:py-0"
+              style={{ background: "var(--panel)", border: "1px solid var(--border)" }}
+              placeholder="https://music.apple.com/… or https://artist.bandcamp.com/album/…"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+            <button
+              onClick={handleConvert}
+              disabled={loading || !url}
+              className="rounded-xl px-5 py-3 text-base disabled:opacity-50 btn-solid w-full sm:w-auto whitespace-nowrap md:h-12 md:py-0"
+            >
+              {loading ? "Working..." : "Find on Spotify"}
+            </button>
+          </div>
+        </section>
+
+        {error && (
+          <div
+            className="rounded-xl p-3 text-sm"
+            style={{
+              border: "1px solid var(--border)",
+              background: "color-mix(in oklab, var(--panel), #ff0000 10%)",
+              color: "var(--foreground)",
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        {data && (
+          <section className="rounded-2xl overflow-hidden panel-surface psd-shadow">
+            <div
+              className="flex items-center justify-between gap-2 px-4 py-3"
+              style={{ borderBottom: "1px solid var(--border)" }}
+            >
+              <div className="text-sm opacity-80 min-w-0 truncate" title={data.source.name}>
+                {SERVICE_LABELS[data.source.service]}: <span className="font-medium">{data.source.name}</span>
+                {` · ${uris.length} / ${data.tracks.length} on Spotify (${data.market})`}
+                {data.truncated && " · list cut short"}
+              </div>
+              <button
+                onClick={copyUris}
+                disabled={!uris.length}
+                className="rounded-lg px-3 py-2 text-sm btn-outline disabled:opacity-50 whitespace-nowrap"
+                title="Paste into a Spotify desktop playlist to add them all"
+              >
+                {copied ? "Copied" : "Copy URIs"}
+              </button>
+            </div>
+
+            <textarea
+              readOnly
+              className="w-full px-4 py-2 text-xs font-mono"
+              style={{ background: "var(--panel)", borderBottom: "1px solid var(--border)" }}
+              rows={Math.min(6, Math.max(2, uris.length))}
+              value={uris.join("\n")}
+              onFocus={(e) => e.target.select()}
+            />
+
+            <ul>
+              {data.tracks.map((t, i) => (
+                <li
+                  key={i}
+                  className="px-4 py-3"
+                  style={{ borderTop: i === 0 ? "none" : "1px solid var(--border)" }}
+                >
+                  <div className="flex flex-col gap-1 sm:flex-row sm:items-start sm:justify-between">
+                    <div className="min-w-0">
+                      <div className="font-semibold truncate" title={t.title}>
+                        {t.title}
+                      </div>
+                      <div className="text-sm opacity-90 truncate">{t.artist}</div>
+                      {t.error && <div className="text-xs opacity-70">{t.error}</div>}
+                      {!t.error && !t.match && <div className="text-xs opacity-70">not found on Spotify</div>}
+                      {t.match && t.match.confidence < LOW_CONFIDENCE && (
+                        <div
+                          className="text-xs"
+                          style={{ color: "color-mix(in oklab, var(--foreground), #ff8800 60%)" }}
+                          title={describe(t.match)}
+                        >
+                          low-confidence match ({Math.round(t.match.confidence * 100)}%): check before sharing
+                        </div>
+                      )}
+                      {!!t.alternates.length && (
+                        <select
+                          className="mt-1 rounded-lg px-2 py-1 text-xs max-w-full"
+                          style={{ background: "var(--panel)", border: "1px solid var(--border)" }}
+                          value=""
+                          onChange={(e) => pickAlternate(i, Number(e.target.value))}
+                        >
+                          <option value="" disabled>
+                            {t.match ? "other Spotify matches…" : "pick a Spotify match…"}
+                          </option>
+                          {t.alternates.map((c, j) => (
+                            <option key={c.uri} value={j}>
+                              {describe(c)}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                    {t.match && (
+                      <a
+                        className="rounded-lg px-3 py-2 text-sm btn-outline whitespace-nowrap"
+                        href={t.match.url}
+                        target="_blank"
+                        rel="noreferrer"
+                        title={describe(t.match)}
+                      >
+                        Spotify ({Math.round(t.match.confidence * 100)}%)
+                      </a>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+// Runs the compiled CLI (npm run build:cli). The library imports "@/lib/…"
+// like the app does, so those resolve into dist/ here.
+
+import { existsSync } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const require = createRequire(import.meta.url);
+const Module = require("node:module");
+const dist = join(dirname(fileURLToPath(import.meta.url)), "..", "dist");
+
+const resolve = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+  if (request.startsWith("@/")) request = join(dist, request.slice(2));
+  return resolve.call(this, request, ...rest);
+};
+
+// Lookups, snapshots (for diff) and overrides live in .cache/ like a self-hosted
+// server's; a dry run keeps its lookups in memory so it doesn't touch them
+const args = process.argv.slice(2);
+if (!args.includes("--dry-run")) process.env.LOOKUP_CACHE ??= "file";
+
+const entry = join(dist, "cli", "main.js");
+if (!existsSync(entry)) {
+  process.stderr.write("speebee isn't built yet: run `npm run build:cli` first\n");
+  process.exit(6);
+}
+process.exitCode = await require(entry).run(args);
@@ -0,0 +1,55 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { startFakeServer, type FakeServer } from "@/test/fake-server";
+import { recordFixtures, replayFixtures } from "./fixtures";
+
+const realFetch = globalThis.fetch;
+let store: FakeServer;
+let dir: string;
+
+beforeAll(async () => {
+  store = await startFakeServer((req, res) => {
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify({ path: req.url?.split("?")[0] }));
+  });
+  dir = mkdtempSync(join(tmpdir(), "speebee-fixtures-"));
+});
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+afterAll(async () => {
+  await store.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("recorded fixtures", () => {
+  const qobuz = () => `${store.url}/api.json/0.2/track/search?query=night+drive&limit=10&app_id=qobuz-secret`;
+  const sevendigital = () =>
+    `${store.url}/1.2/track/search?q=night+drive&country=GB&oauth_consumer_key=7d-secret&pagesize=10`;
+
+  it("keeps store credentials out of the files", async () => {
+    recordFixtures(dir);
+    await fetch(qobuz());
+    await fetch(sevendigital());
+
+    const files = readdirSync(dir).map((f) => readFileSync(join(dir, f), "utf8"));
+    expect(files).toHaveLength(2);
+    for (const file of files) {
+      expect(file).not.toMatch(/qobuz-secret|7d-secret/);
+      expect(JSON.parse(file).url).toMatch(/(app_id|oauth_consumer_key)=recorded/);
+    }
+  });
+
+  it("replays them for requests with any key", async () => {
+    const misses: string[] = [];
+    replayFixtures(dir, (_method, url) => misses.push(url));
+    const res = await fetch(qobuz().replace("qobuz-secret", "another-key"));
+    expect(await res.json()).toEqual({ path: "/api.json/0.2/track/search" });
+    expect((await fetch(sevendigital())).status).toBe(200);
+    expect(misses).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+// ---------- Recorded fixtures ----------
+// `--record DIR` saves every HTTP response a run gets (Spotify and stores
+// alike) and `--dry-run` plays them back instead of touching the network, so
+// a run can be repeated offline or turned into a reproducible bug report.
+// One JSON file per request, named after a hash of its method and URL.
+
+import { createHash } from "node:crypto";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+export type Fixture = {
+  method: string;
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  /** Where redirects ended up, when that's not `url` */
+  finalUrl?: string;
+};
+
+/** Response headers worth keeping; the rest only describe the original connection */
+const KEPT_HEADERS = ["content-type", "retry-after", "location"];
+
+/** Store credentials that ride in query strings (Qobuz, 7digital); recordings are meant to be committed */
+const CREDENTIAL_PARAMS = ["app_id", "oauth_consumer_key"];
+
+/** `url` with any credential replaced, so it can be written down and still names the same request */
+function scrubUrl(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  let scrubbed = false;
+  for (const name of CREDENTIAL_PARAMS) {
+    if (parsed.searchParams.has(name)) {
+      parsed.searchParams.set(name, "recorded");
+      scrubbed = true;
+    }
+  }
+  return scrubbed ? parsed.toString() : url;
+}
+
+function fixtureFile(dir: string, method: string, url: string) {
+  const hash = createHash("sha1").update(`${method} ${url}`).digest("hex").slice(0, 16);
+  return join(dir, `${hash}.json`);
+}
+
+/** The request as recordings name it: credentials scrubbed from the URL */
+function requestOf(input: RequestInfo | URL, init?: RequestInit) {
+  if (input instanceof Request) return { method: input.method.toUpperCase(), url: scrubUrl(input.url) };
+  return { method: (init?.method ?? "GET").toUpperCase(), url: scrubUrl(String(input)) };
+}
+
+/** Tokens in a recording would outlive the run; replays don't need real ones */
+function redact(body: string) {
+  return body.replace(/("access_token"\s*:\s*")[^"]*"/g, '$1recorded"');
+}
+
+/** Wrap fetch so every response is also written to `dir` */
+export function recordFixtures(dir: string) {
+  mkdirSync(dir, { recursive: true });
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = async (input, init) => {
+    const res = await realFetch(input, init);
+    const { method, url } = requestOf(input, init);
+    const body = await res.clone().text();
+    const headers: Record<string, string> = {};
+    for (const h of KEPT_HEADERS) {
+      const value = res.headers.get(h);
+      if (value != null) headers[h] = h === "location" ? scrubUrl(value) : value;
+    }
+    const fixture: Fixture = { method, url, status: res.status, headers, body: redact(body) };
+    const finalUrl = res.url && scrubUrl(res.url);
+    if (finalUrl && finalUrl !== url) fixture.finalUrl = finalUrl;
+    writeFileSync(fixtureFile(dir, method, url), JSON.stringify(fixture, null, 2) + "\n");
+    return res;
+  };
+}
+
+/**
+ * Replace fetch with playback from `dir`. A request nobody recorded gets a
+ * 404, which the lookups treat like any store that found nothing; `onMiss`
+ * is told so the run can say its fixtures are incomplete.
+ */
+export function replayFixtures(dir: string, onMiss: (method: string, url: string) => void) {
+  globalThis.fetch = async (input, init) => {
+    const { method, url } = requestOf(input, init);
+    let fixture: Fixture;
+    try {
+      fixture = JSON.parse(readFileSync(fixtureFile(dir, method, url), "utf8"));
+    } catch {
+      onMiss(method, url);
+      return new Response("Not recorded", { status: 404, headers: { "content-type": "text/plain" } });
+    }
+    const empty = fixture.status === 204 || fixture.status === 304;
+    const res = new Response(empty ? null : fixture.body, { status: fixture.status, headers: fixture.headers });
+    // Short links are expanded by following redirects and reading where they landed
+    if (fixture.finalUrl) Object.defineProperty(res, "url", { value: fixture.finalUrl });
+    return res;
+  };
+}
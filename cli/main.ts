@@ -0,0 +1,288 @@
+// ---------- speebee ----------
+// The command-line side of the linker: the same Spotify reading, store
+// lookups and exports as the web app, run from a terminal or a cron job.
+// Results go to stdout (or -o), progress and summaries to stderr, and the
+// exit code says what went wrong.
+
+import { writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import {
+  ApiError,
+  MAX_COUNTRIES,
+  parseCountries,
+  SKIP_REASON_LABELS,
+  type ErrorCode,
+  type SkipReason,
+} from "@/lib/api";
+import { flushFileStores } from "@/lib/cache";
+import { EXPORT_FORMATS, renderExport, type ExportFormat } from "@/lib/export";
+import { toApiError } from "@/lib/http";
+import type { LookupOptions } from "@/lib/lookup";
+import { loadOverrides } from "@/lib/override-store";
+import { indexOverrides } from "@/lib/overrides";
+import { getProviders, toMeta } from "@/lib/providers";
+import { DEFAULT_PROVIDER_IDS, PROVIDER_META } from "@/lib/providers/meta";
+import { loadTracks, matchTracks, recordRun, type RunTotals } from "@/lib/run";
+import { getSpotifyAppToken } from "@/lib/spotify";
+import { resolveSpotifyLink } from "@/lib/spotify-source";
+import { recordFixtures, replayFixtures } from "./fixtures";
+
+export const EXIT = {
+  OK: 0,
+  /** The run finished but some lookups failed; the output marks them */
+  PARTIAL: 1,
+  /** Bad arguments */
+  USAGE: 2,
+  /** The link isn't readable: not Spotify, not found, or private */
+  SOURCE: 3,
+  /** Spotify or a store kept failing or throttling us */
+  UPSTREAM: 4,
+  /** Missing or rejected Spotify credentials */
+  CONFIG: 5,
+  INTERNAL: 6,
+} as const;
+
+const EXIT_FOR: Record<ErrorCode, number> = {
+  INVALID_REQUEST: EXIT.USAGE,
+  INVALID_LINK: EXIT.SOURCE,
+  LOGIN_REQUIRED: EXIT.SOURCE,
+  PLAYLIST_NOT_FOUND: EXIT.SOURCE,
+  PAYLOAD_TOO_LARGE: EXIT.USAGE,
+  UNAUTHORIZED: EXIT.CONFIG,
+  SERVER_MISCONFIGURED: EXIT.CONFIG,
+  SPOTIFY_AUTH_FAILED: EXIT.CONFIG,
+  RATE_LIMITED: EXIT.UPSTREAM,
+  UPSTREAM_RATE_LIMITED: EXIT.UPSTREAM,
+  UPSTREAM_UNAVAILABLE: EXIT.UPSTREAM,
+  INTERNAL: EXIT.INTERNAL,
+};
+
+const STORES = `${Object.keys(PROVIDER_META).join(", ")} (default ${DEFAULT_PROVIDER_IDS.join(", ")})`;
+
+const USAGE = `Usage:
+  speebee match <spotify link> [options]   look every track up and print the results
+  speebee diff <spotify link> [options]    only tracks added since the last run (or --since)
+
+Options:
+  -c, --country CC[,CC…]   storefronts to compare; the first is linked to (default US)
+  -p, --providers ID[,ID…] stores to search: ${STORES}
+  -f, --format FORMAT      ${EXPORT_FORMATS.join(", ")} (m3u = m3u8; default csv)
+  -o, --output FILE        write there instead of stdout
+      --since YYYY-MM-DD   diff: tracks added on or after this date
+      --refresh            skip cached lookups
+      --record DIR         save every response under DIR
+      --dry-run            replay responses from --fixtures instead of the network
+      --fixtures DIR       where --dry-run reads from (default fixtures)
+  -q, --quiet              no progress or summary
+  -h, --help               this text
+
+Exit codes: 0 ok, 1 some lookups failed, 2 bad arguments, 3 link not readable,
+4 Spotify or a store unavailable, 5 Spotify credentials missing or rejected, 6 other errors.
+`;
+
+// ---------- Arguments ----------
+type Command = "match" | "diff";
+
+type CliOptions = {
+  command: Command;
+  link: string;
+  countries: string[];
+  providers: string[];
+  format: ExportFormat;
+  output: string | null;
+  since: Date | null;
+  refresh: boolean;
+  record: string | null;
+  dryRun: boolean;
+  fixtures: string;
+  quiet: boolean;
+};
+
+class UsageError extends Error {}
+
+/** Repeated options and comma lists both work: `-c GB -c US` is `-c GB,US` */
+const listOf = (values: string[] | undefined) =>
+  (values ?? []).flatMap((v) => v.split(",")).map((v) => v.trim()).filter(Boolean);
+
+/** The parsed command, or null when only help was asked for */
+function parseCli(argv: string[]): CliOptions | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      country: { type: "string", short: "c", multiple: true },
+      providers: { type: "string", short: "p", multiple: true },
+      format: { type: "string", short: "f" },
+      output: { type: "string", short: "o" },
+      since: { type: "string" },
+      refresh: { type: "boolean" },
+      record: { type: "string" },
+      "dry-run": { type: "boolean" },
+      fixtures: { type: "string" },
+      quiet: { type: "boolean", short: "q" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  const [command, link, ...rest] = positionals;
+  if (values.help || !command || command === "help") return null;
+  if (command !== "match" && command !== "diff") throw new UsageError(`Unknown command "${command}"`);
+  if (!link) throw new UsageError(`${command} needs a Spotify link`);
+  if (rest.length) throw new UsageError(`Unexpected argument "${rest[0]}"`);
+
+  const countries = listOf(values.country);
+  const badCountry = countries.find((c) => !/^[a-z]{2}$/i.test(c));
+  if (badCountry) throw new UsageError(`"${badCountry}" isn't a two-letter country code`);
+  if (countries.length > MAX_COUNTRIES) throw new UsageError(`At most ${MAX_COUNTRIES} countries`);
+
+  const providers = listOf(values.providers);
+  const badProvider = providers.find((p) => !(p in PROVIDER_META));
+  if (badProvider) throw new UsageError(`Unknown store "${badProvider}"`);
+
+  const format = values.format === "m3u" ? "m3u8" : (values.format ?? "csv");
+  if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+    throw new UsageError(`--format must be one of ${EXPORT_FORMATS.join(", ")}`);
+  }
+
+  let since: Date | null = null;
+  if (values.since !== undefined) {
+    if (command !== "diff") throw new UsageError("--since only applies to diff");
+    since = new Date(values.since);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(values.since) || Number.isNaN(since.getTime())) {
+      throw new UsageError("--since must be a date like 2024-05-01");
+    }
+  }
+  if (values.record && values["dry-run"]) throw new UsageError("--record and --dry-run can't be combined");
+
+  return {
+    command,
+    link,
+    countries: parseCountries(countries, undefined),
+    providers,
+    format: format as ExportFormat,
+    output: values.output ?? null,
+    since,
+    refresh: !!values.refresh,
+    record: values.record ?? null,
+    dryRun: !!values["dry-run"],
+    fixtures: values.fixtures ?? "fixtures",
+    quiet: !!values.quiet,
+  };
+}
+
+// ---------- Progress ----------
+function createProgress(quiet: boolean) {
+  const tty = process.stderr.isTTY;
+  const log = (line: string) => {
+    if (!quiet) process.stderr.write(line + "\n");
+  };
+  return {
+    log,
+    /** A counter that rewrites itself on a terminal; logs and pipes only get the summary */
+    track(done: number, totals: RunTotals) {
+      if (quiet || !tty) return;
+      const { total, matched, unmatched, failed } = totals;
+      const counts = `${matched} matched · ${unmatched} not found · ${failed} failed`;
+      process.stderr.write(`\r${done}/${total} looked up · ${counts}`);
+      if (done === total) process.stderr.write("\n");
+    },
+  };
+}
+
+// ---------- Run ----------
+async function execute(opts: CliOptions, progress: ReturnType<typeof createProgress>): Promise<number> {
+  if (opts.dryRun) {
+    // Replayed token requests never reach Spotify, but the token code still wants credentials
+    process.env.SPOTIFY_CLIENT_ID ||= "dry-run";
+    process.env.SPOTIFY_CLIENT_SECRET ||= "dry-run";
+    let missed = 0;
+    replayFixtures(opts.fixtures, (method, url) => {
+      // Said even with --quiet: a missing recording explains whatever fails next
+      if (missed++ === 0) process.stderr.write(`No recorded response for ${method} ${url}; treating it as a 404\n`);
+    });
+  } else if (opts.record) {
+    recordFixtures(opts.record);
+  }
+
+  const source = await resolveSpotifyLink(opts.link);
+  if (source.kind === "liked") {
+    throw new ApiError("LOGIN_REQUIRED", "Liked Songs need a connected account; the CLI reads public links only");
+  }
+  const token = (await getSpotifyAppToken()).access_token;
+  const loaded = await loadTracks(source, {
+    token,
+    market: opts.countries[0],
+    mode: opts.command === "match" ? "full" : opts.since ? "since_date" : "since_last",
+    since: opts.since,
+    // .cache/ belongs to whoever runs the CLI
+    owner: "cli",
+  });
+  progress.log(`${loaded.source.name}: ${loaded.tracks.length} tracks to look up`);
+
+  const lookup: LookupOptions = {
+    providers: getProviders(opts.providers),
+    countries: opts.countries,
+    refresh: opts.refresh,
+    collection: null,
+    overrides: indexOverrides(await loadOverrides()),
+  };
+  let done = 0;
+  const { results, totals, bundles } = await matchTracks(loaded.tracks, lookup, (_i, _r, t) =>
+    progress.track(++done, t)
+  );
+
+  const { body } = renderExport(opts.format, {
+    name: loaded.source.name,
+    country: opts.countries[0],
+    providers: lookup.providers.map(toMeta),
+    rows: results,
+  });
+  if (opts.output) await writeFile(opts.output, body);
+  else process.stdout.write(body);
+  await recordRun(loaded, results);
+
+  progress.log(`${totals.matched} matched, ${totals.unmatched} not found, ${totals.failed} failed`);
+  const skipped = new Map<SkipReason, number>();
+  for (const s of loaded.skipped) skipped.set(s.reason, (skipped.get(s.reason) ?? 0) + 1);
+  if (skipped.size) {
+    progress.log(`Skipped: ${[...skipped].map(([reason, n]) => `${n} ${SKIP_REASON_LABELS[reason]}`).join(", ")}`);
+  }
+  for (const b of bundles.filter((b) => b.buyAlbum)) {
+    const store = lookup.providers.find((p) => p.id === b.providerId)?.label ?? b.providerId;
+    progress.log(`Cheaper as an album on ${store}: ${b.album.title} — ${b.album.artist} (${b.album.url})`);
+  }
+  if (loaded.diff) {
+    const { previousRun, removed } = loaded.diff;
+    if (!previousRun && !opts.since) progress.log("First run of this playlist: every track counts as new");
+    if (removed.length) progress.log(`${removed.length} removed since the last run`);
+  }
+  return totals.failed ? EXIT.PARTIAL : EXIT.OK;
+}
+
+/** Run the CLI with the arguments after the program name; resolves to the exit code */
+export async function run(argv: string[]): Promise<number> {
+  let opts: CliOptions | null;
+  try {
+    opts = parseCli(argv);
+  } catch (e) {
+    // parseArgs throws TypeErrors for unknown or malformed options
+    const message = e instanceof UsageError || e instanceof TypeError ? e.message : String(e);
+    process.stderr.write(`${message}\n\n${USAGE}`);
+    return EXIT.USAGE;
+  }
+  if (!opts) {
+    process.stdout.write(USAGE);
+    return EXIT.OK;
+  }
+
+  const progress = createProgress(opts.quiet);
+  try {
+    return await execute(opts, progress);
+  } catch (e) {
+    const { code, message } = toApiError(e);
+    process.stderr.write(`speebee: ${message} (${code})\n`);
+    return EXIT_FOR[code];
+  } finally {
+    // File caches write on a timer that doesn't keep the process alive
+    await flushFileStores();
+  }
+}
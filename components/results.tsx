@@ -0,0 +1,169 @@
+"use client";
+
+// Pieces of a result row shared by the main page and shared /r/{id} pages
+
+import type { SourceKind, StorefrontOffer, StoreOutcome, TrackResult } from "@/lib/api";
+import { LOW_CONFIDENCE } from "@/lib/matching";
+import { cheapestOffer, formatPrice } from "@/lib/prices";
+import type { ProviderMeta, StoreMatch } from "@/lib/providers/types";
+
+export const SOURCE_LABELS: Record<SourceKind, string> = {
+  playlist: "Playlist",
+  album: "Album",
+  track: "Track",
+  artist: "Artist top tracks",
+  liked: "Your library",
+};
+
+function isLowConfidence(s: StoreOutcome) {
+  const c = s.match?.confidence;
+  return c != null && c < LOW_CONFIDENCE;
+}
+
+function describeCandidate(c: StoreMatch) {
+  const album = c.album ? ` (${c.album})` : "";
+  return `${c.title} — ${c.artist}${album} · ${Math.round(c.confidence * 100)}%`;
+}
+
+/**
+ * One buy button per store: the match or its search page. iTunes tracks go
+ * through /go/apple, which opens them in the app that works on this device.
+ */
+export function StoreButtons({
+  row,
+  providers,
+  country,
+}: {
+  row: TrackResult;
+  providers: ProviderMeta[];
+  /** The storefront results link to */
+  country: string;
+}) {
+  return (
+    <div className="flex flex-wrap gap-2 mt-1 sm:mt-0 sm:justify-end">
+      {providers.map((p) => {
+        const store = row.stores[p.id];
+        if (!store) return null;
+        const m = store.match;
+        if (p.id === "apple" && m?.id && /^\d+$/.test(m.id)) {
+          return (
+            <a
+              key={p.id}
+              className="rounded-lg px-3 py-2 text-sm btn-outline"
+              href={`/go/apple/${m.id}?country=${country}`}
+              target="_blank"
+              rel="noreferrer"
+              title={`Open in the ${p.label}`}
+            >
+              {p.label} (buy)
+            </a>
+          );
+        }
+        return (
+          <a
+            key={p.id}
+            className="rounded-lg px-3 py-2 text-sm btn-outline"
+            href={m?.url ?? store.searchUrl}
+            target="_blank"
+            rel="noreferrer"
+          >
+            {p.label} ({m?.url ? "direct" : "search"})
+          </a>
+        );
+      })}
+    </div>
+  );
+}
+
+function StorefrontComparison({ offers }: { offers: StorefrontOffer[] }) {
+  const cheapest = cheapestOffer(offers);
+  return (
+    <div className="flex flex-wrap gap-x-3 text-xs mt-1">
+      {offers.map((o) => {
+        const label =
+          o.status === "failed"
+            ? "error"
+            : o.price != null && o.currency
+              ? formatPrice(o.price, o.currency)
+              : o.status === "matched"
+                ? "album only"
+                : "—";
+        const text = `${o.country} ${label}`;
+        return o.url ? (
+          <a
+            key={o.country}
+            href={o.url}
+            target="_blank"
+            rel="noreferrer"
+            className={o === cheapest ? "font-semibold link-blue" : "opacity-80"}
+            title={o === cheapest ? "Cheapest store" : undefined}
+          >
+            {text}
+          </a>
+        ) : (
+          <span key={o.country} className="opacity-60">
+            {text}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Per-store notes under a row: how it matched, how sure we are, prices per
+ * storefront, and alternates (only pickable when `onPick` is given).
+ */
+export function StoreDetails({
+  provider,
+  store,
+  onPick,
+}: {
+  provider: ProviderMeta;
+  store: StoreOutcome;
+  onPick?: (altIndex: number) => void;
+}) {
+  return (
+    <>
+      {store.strategy === "isrc" && (
+        <div className="text-xs opacity-70">exact {provider.label} match by ISRC</div>
+      )}
+      {store.strategy === "override" && (
+        <div className="text-xs opacity-70">
+          {store.match ? `${provider.label} link picked by hand` : `marked as not on ${provider.label}`}
+        </div>
+      )}
+      {store.strategy === "album" && (
+        <div className="text-xs opacity-70">no {provider.label} track page; linked to the release</div>
+      )}
+      {isLowConfidence(store) && store.match && (
+        <div
+          className="text-xs"
+          style={{ color: "color-mix(in oklab, var(--foreground), #ff8800 60%)" }}
+          title={describeCandidate(store.match)}
+        >
+          low-confidence {provider.label} match ({Math.round(store.match.confidence * 100)}%): check before buying
+        </div>
+      )}
+      {(store.storefronts?.length ?? 0) > 1 && <StorefrontComparison offers={store.storefronts ?? []} />}
+      {onPick && !!store.alternates.length && (
+        <select
+          className="mt-1 rounded-lg px-2 py-1 text-xs max-w-full"
+          style={{ background: "var(--panel)", border: "1px solid var(--border)" }}
+          value=""
+          onChange={(e) => onPick(Number(e.target.value))}
+          title={`Pick a different ${provider.label} result`}
+        >
+          <option value="" disabled>
+            {store.match ? `other ${provider.label} matches…` : `pick a ${provider.label} match…`}
+          </option>
+          {store.alternates.map((c, j) => (
+            <option key={`${c.id ?? c.url}-${j}`} value={j}>
+              {describeCandidate(c)}
+            </option>
+          ))}
+        </select>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+// The grouped shopping view under the results: per store, the releases worth
+// buying whole, the tracks left to buy one by one, and what it all comes to
+
+import type { BundleSuggestion, TrackResult } from "@/lib/api";
+import { approxTotalUsd, spendByStore, type StoreSpend } from "@/lib/bundles";
+import { formatPrice } from "@/lib/prices";
+import type { ProviderMeta } from "@/lib/providers/types";
+
+function formatTotals(totals: Record<string, number>) {
+  const parts = Object.entries(totals).map(([currency, amount]) => formatPrice(amount, currency));
+  return parts.length ? parts.join(" + ") : "nothing priced";
+}
+
+function BundleLine({ bundle }: { bundle: BundleSuggestion }) {
+  const { album, tracksPrice, complete } = bundle;
+  const n = bundle.trackIndexes.length;
+  const why = complete
+    ? `all ${album.trackCount} tracks are in this list`
+    : tracksPrice != null && album.currency
+      ? `instead of ${n} tracks for ${formatPrice(tracksPrice, album.currency)}`
+      : `${n} of ${album.trackCount ?? "?"} tracks`;
+  return (
+    <li>
+      <a href={album.url} target="_blank" rel="noreferrer" className="link-blue">
+        {album.title}
+      </a>{" "}
+      — {album.artist}
+      {album.price != null && album.currency && ` · ${formatPrice(album.price, album.currency)}`}
+      <span className="opacity-70"> ({why})</span>
+    </li>
+  );
+}
+
+/**
+ * What buying everything matched would cost on each store, with releases
+ * bought whole where that's cheaper. `results` are indexed like the stream;
+ * leave out (undefined) tracks that shouldn't be bought, like owned ones.
+ */
+export function ShoppingList({
+  results,
+  bundles,
+  providers,
+}: {
+  results: (TrackResult | undefined)[];
+  bundles: BundleSuggestion[];
+  providers: ProviderMeta[];
+}) {
+  const ids = providers.map((p) => p.id);
+  const spends = spendByStore(results, bundles, ids).filter((s) => s.albums.length || s.tracks.length);
+  if (!spends.length) return null;
+
+  // Like storefront totals: a store missing half the tracks isn't "cheaper"
+  const priced = (s: StoreSpend) =>
+    s.albums.reduce((n, b) => n + b.trackIndexes.length, 0) + s.tracks.length - s.unpriced;
+  const most = Math.max(...spends.map(priced));
+  const comparable = spends.filter((s) => priced(s) === most);
+  let cheapest: string | null = null;
+  let cheapestUsd = Infinity;
+  for (const s of comparable.length > 1 ? comparable : []) {
+    const usd = approxTotalUsd(s.totals);
+    if (usd != null && usd < cheapestUsd) {
+      cheapest = s.providerId;
+      cheapestUsd = usd;
+    }
+  }
+
+  return (
+    <section className="rounded-2xl px-4 py-3 panel-surface psd-shadow text-sm space-y-3">
+      <h2 className="font-semibold">shopping list</h2>
+      {spends.map((s) => {
+        const provider = providers.find((p) => p.id === s.providerId);
+        const label = provider?.label ?? s.providerId;
+        return (
+          <div key={s.providerId} className="space-y-1">
+            <div>
+              <span className="font-medium">{label}</span>: about {formatTotals(s.totals)}
+              {s.providerId === cheapest && <span className="link-blue"> · cheapest</span>}
+              {!!s.unpriced && (
+                <span className="opacity-70">
+                  {" "}
+                  + {s.unpriced} {s.unpriced === 1 ? "track" : "tracks"} without a listed price
+                </span>
+              )}
+            </div>
+            {!!s.albums.length && (
+              <ul className="text-xs space-y-0.5">
+                {s.albums.map((b) => (
+                  <BundleLine key={b.key} bundle={b} />
+                ))}
+              </ul>
+            )}
+            {!!s.tracks.length && (
+              <details className="text-xs">
+                <summary className="cursor-pointer opacity-80">
+                  {s.tracks.length} single {s.tracks.length === 1 ? "track" : "tracks"}
+                </summary>
+                <ul className="mt-1 space-y-0.5">
+                  {s.tracks.map(({ index, price, currency }) => {
+                    const r = results[index];
+                    const m = r?.stores[s.providerId]?.match;
+                    if (!r || !m) return null;
+                    return (
+                      <li key={index}>
+                        {m.url ? (
+                          <a href={m.url} target="_blank" rel="noreferrer" className="link-blue">
+                            {r.title}
+                          </a>
+                        ) : (
+                          r.title
+                        )}{" "}
+                        — {r.artist}
+                        <span className="opacity-70">
+                          {price != null && currency ? ` · ${formatPrice(price, currency)}` : " · no price"}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </details>
+            )}
+          </div>
+        );
+      })}
+    </section>
+  );
+}
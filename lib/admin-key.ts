@@ -0,0 +1,30 @@
+// ---------- Admin key (browser side) ----------
+// Changing overrides needs a key from the server's ADMIN_KEYS. Whoever runs
+// the server enters it once on /overrides; this browser then sends it with
+// every change and the main page offers "fix a match".
+
+const ADMIN_KEY_STORAGE = "speebee_admin_key";
+
+export function readAdminKey(): string {
+  try {
+    return window.localStorage.getItem(ADMIN_KEY_STORAGE) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+/** An empty key forgets it */
+export function saveAdminKey(key: string) {
+  try {
+    if (key) window.localStorage.setItem(ADMIN_KEY_STORAGE, key);
+    else window.localStorage.removeItem(ADMIN_KEY_STORAGE);
+  } catch {
+    // Private mode: the key lasts until the page is closed
+  }
+}
+
+/** Headers for a request that changes overrides */
+export function adminHeaders(): Record<string, string> {
+  const key = readAdminKey();
+  return key ? { "Content-Type": "application/json", "X-API-Key": key } : { "Content-Type": "application/json" };
+}
@@ -0,0 +1,26 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { requireAdminKey } from "@/lib/api-keys";
+
+const request = (headers: Record<string, string>) => new Request("http://app/api/overrides", { headers });
+
+beforeAll(() => {
+  // Read on first use
+  vi.stubEnv("ADMIN_KEYS", "owner:s3cret,helper:other");
+  vi.stubEnv("API_KEYS", "script:api-only");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("requireAdminKey", () => {
+  it("accepts a key from ADMIN_KEYS as a Bearer token or in X-API-Key", () => {
+    expect(requireAdminKey(request({ Authorization: "Bearer s3cret" }))).toBe("owner");
+    expect(requireAdminKey(request({ "X-API-Key": "other" }))).toBe("helper");
+  });
+
+  const refused: Record<string, string>[] = [{}, { "X-API-Key": "wrong" }, { "X-API-Key": "api-only" }];
+  it.each(refused)("refuses %o", (headers) => {
+    expect(() => requireAdminKey(request(headers))).toThrow(expect.objectContaining({ code: "UNAUTHORIZED" }));
+  });
+});
@@ -0,0 +1,69 @@
+// ---------- v1 API keys ----------
+// Keys come from API_KEYS: comma-separated `name:key` pairs, optionally with a
+// per-minute limit (`name:key:120`). Sent as `Authorization: Bearer <key>` or
+// `X-API-Key: <key>`. Limits are counted in memory, per process. ADMIN_KEYS
+// has the same format and guards changes every user sees, like overrides.
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import { ApiError } from "@/lib/api";
+import { createRateLimiter, type Quota } from "@/lib/rate-limit";
+
+const DEFAULT_PER_MINUTE = 60;
+const WINDOW_MS = 60 * 1000;
+
+type ApiKey = { name: string; hash: Buffer; perMinute: number };
+
+const sha256 = (s: string) => createHash("sha256").update(s).digest();
+
+let keys: ApiKey[] | null = null;
+let adminKeys: ApiKey[] | null = null;
+
+function parseApiKeys(raw: string): ApiKey[] {
+  return raw
+    .split(",")
+    .map((entry) => entry.trim().split(":"))
+    .filter(([name, key]) => name && key)
+    .map(([name, key, limit]) => {
+      const perMinute = Number(limit);
+      return { name, hash: sha256(key), perMinute: perMinute > 0 ? Math.floor(perMinute) : DEFAULT_PER_MINUTE };
+    });
+}
+
+function configuredKeys() {
+  keys ??= parseApiKeys(process.env.API_KEYS ?? "");
+  return keys;
+}
+
+function presentedKey(req: Request) {
+  const auth = req.headers.get("authorization");
+  const bearer = auth?.match(/^Bearer\s+(.+)$/i)?.[1];
+  return (bearer ?? req.headers.get("x-api-key") ?? "").trim();
+}
+
+/** Hashing first makes every comparison the same length, so timingSafeEqual applies */
+function findKey(presented: string, among: ApiKey[] = configuredKeys()) {
+  const hash = sha256(presented);
+  return among.find((k) => timingSafeEqual(k.hash, hash)) ?? null;
+}
+
+// ---------- Rate limit ----------
+const take = createRateLimiter(WINDOW_MS, "per minute");
+
+/** Checks the request's key and counts it against that key's limit */
+export function requireApiKey(req: Request): Quota {
+  if (!configuredKeys().length) throw new ApiError("UNAUTHORIZED", "The API isn't enabled on this server");
+  const presented = presentedKey(req);
+  if (!presented) throw new ApiError("UNAUTHORIZED", "Send an API key as a Bearer token or in X-API-Key");
+  const key = findKey(presented);
+  if (!key) throw new ApiError("UNAUTHORIZED", "Unknown API key");
+  return take(key.name, key.perMinute);
+}
+
+/** Checks for a key from ADMIN_KEYS; admin requests aren't rate limited. Returns the key's name */
+export function requireAdminKey(req: Request): string {
+  adminKeys ??= parseApiKeys(process.env.ADMIN_KEYS ?? "");
+  if (!adminKeys.length) throw new ApiError("UNAUTHORIZED", "Changes need an admin key, and ADMIN_KEYS isn't set");
+  const key = findKey(presentedKey(req), adminKeys);
+  if (!key) throw new ApiError("UNAUTHORIZED", "Send the admin key as a Bearer token or in X-API-Key");
+  return key.name;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { parseResultRow, parseShareRequest } from "@/lib/api";
+
+const match = {
+  id: "1440833098",
+  albumId: "1440833097",
+  title: "Song",
+  artist: "Artist",
+  album: "Album",
+  url: "https://music.apple.com/gb/album/album/1440833097?i=1440833098",
+  appLinks: ["itms://itunes.apple.com/album/id1440833097?i=1440833098&uo=4&app=itunes"],
+  price: 0.99,
+  currency: "GBP",
+  confidence: 0.92,
+};
+
+const row = () => ({
+  id: "4uLU6hMCjMI75M1A2tKUQC",
+  addedAt: null,
+  title: "Song",
+  artist: "Artist",
+  album: "Album",
+  stores: {
+    apple: {
+      status: "matched",
+      match: { ...match },
+      strategy: "isrc",
+      alternates: [],
+      searchUrl: "https://music.apple.com/gb/search?term=Artist%20Song",
+      storefronts: [{ country: "GB", status: "matched", price: 0.99, currency: "GBP", url: match.url }],
+    },
+    bandcamp: {
+      status: "no_match",
+      match: null,
+      strategy: null,
+      alternates: [],
+      searchUrl: "https://bandcamp.com/search?q=Artist%20Song&item_type=t",
+    },
+  } as Record<string, unknown>,
+  inLibrary: { path: "/Users/me/Music/Song.mp3" },
+});
+
+type Row = ReturnType<typeof row>;
+
+const share = (rows: unknown[]) => ({
+  source: { kind: "playlist", id: "37i9dQZF1DXcBWIGoYBM5M", name: "Hits" },
+  countries: ["GB"],
+  providers: ["apple", "bandcamp"],
+  rows,
+  expiresInDays: 30,
+});
+
+describe("parseShareRequest", () => {
+  it("keeps what /r/{id} shows and drops the collection match and app links", () => {
+    const [parsed] = parseShareRequest(share([row()])).rows;
+    expect(parsed.inLibrary).toBeUndefined();
+    expect(parsed.stores.apple.match).toEqual({ ...match, appLinks: [] });
+    expect(parsed.stores.apple.storefronts).toHaveLength(1);
+    expect(parsed.stores.bandcamp.status).toBe("no_match");
+  });
+
+  it("drops fields it doesn't know", () => {
+    const parsed = parseShareRequest(share([{ ...row(), script: "<script>" }])).rows[0];
+    expect(parsed).not.toHaveProperty("script");
+  });
+
+  const apple = (r: Row, fields: object) => Object.assign(r.stores.apple as object, fields);
+  const bandcamp = (r: Row, fields: object) => Object.assign(r.stores.bandcamp as object, fields);
+
+  const offSite = "https://evil.example/";
+  const offer = { country: "GB", status: "matched", price: 0.99, currency: "GBP" };
+  const broken: [string, (r: Row) => void][] = [
+    ["a null store", (r) => (r.stores.apple = null)],
+    ["an unknown store", (r) => (r.stores.spotify = r.stores.bandcamp)],
+    ["a prototype key as a store", (r) => (r.stores = JSON.parse('{"__proto__": {}}'))],
+    ["a missing title", (r) => Object.assign(r, { title: undefined })],
+    ["a made-up status", (r) => bandcamp(r, { status: "great" })],
+    ["a link off the store's site", (r) => apple(r, { match: { ...match, url: offSite } })],
+    ["an off-site storefront link", (r) => apple(r, { storefronts: [{ ...offer, url: offSite }] })],
+    ["a javascript: search link", (r) => bandcamp(r, { searchUrl: "javascript:alert(1)" })],
+    ["another store's link", (r) => bandcamp(r, { searchUrl: match.url })],
+    ["a path in an ID", (r) => apple(r, { match: { ...match, id: "../../api/me" } })],
+    ["alternates that aren't a list", (r) => apple(r, { alternates: null })],
+  ];
+
+  it.each(broken)("refuses a row with %s", (_, breakRow) => {
+    const r = row();
+    breakRow(r);
+    expect(() => parseShareRequest(share([row(), r]))).toThrow(
+      expect.objectContaining({ code: "INVALID_REQUEST", message: expect.stringMatching(/^rows\[1\]/) })
+    );
+  });
+});
+
+describe("parseResultRow", () => {
+  it("says which field is wrong", () => {
+    expect(() => parseResultRow("rows[4]", { ...row(), artist: undefined })).toThrow("rows[4].artist: expected a string");
+  });
+
+  it("leaves the collection match off", () => {
+    expect(parseResultRow("rows[0]", row())).not.toHaveProperty("inLibrary");
+  });
+});
@@ -0,0 +1,473 @@
+// ---------- Playlist API contract ----------
+// Request and response shapes for /api/playlist, shared by the route and the
+// page so they can't drift apart, plus the error codes the route answers with.
+// Only types and plain functions here: the page bundles this file too.
+
+import type { CollectionMatch } from "@/lib/collection";
+import { overrideUrlError } from "@/lib/overrides";
+import { PROVIDER_META } from "@/lib/providers/meta";
+import type { LookupStatus, ProviderMeta, StoreMatch } from "@/lib/providers/types";
+import type { DiffMode, SnapshotTrack } from "@/lib/snapshots";
+
+export type { DiffMode };
+
+// ---------- Errors ----------
+export const ERROR_STATUS = {
+  /** Body missing fields or with the wrong types */
+  INVALID_REQUEST: 400,
+  /** Not a Spotify link we can read */
+  INVALID_LINK: 400,
+  /** Needs a connected Spotify account (Liked Songs) */
+  LOGIN_REQUIRED: 401,
+  /** v1 API call without a valid API key */
+  UNAUTHORIZED: 401,
+  /** Spotify says the playlist/album/track doesn't exist or isn't visible to us */
+  PLAYLIST_NOT_FOUND: 404,
+  /** The request body is over the route's size limit */
+  PAYLOAD_TOO_LARGE: 413,
+  /** This API key used up its requests for the minute */
+  RATE_LIMITED: 429,
+  /** Spotify or a store is throttling us even after retries */
+  UPSTREAM_RATE_LIMITED: 429,
+  /** The server's Spotify credentials are missing */
+  SERVER_MISCONFIGURED: 500,
+  INTERNAL: 500,
+  /** Spotify rejected our app or user token */
+  SPOTIFY_AUTH_FAILED: 502,
+  /** Spotify or a store answered with something we can't use */
+  UPSTREAM_UNAVAILABLE: 502,
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_STATUS;
+
+/** What every failed request responds with */
+export type ApiErrorBody = { error: string; code: ErrorCode };
+
+/** Thrown anywhere on the server; the route turns it into an ApiErrorBody */
+export class ApiError extends Error {
+  constructor(
+    public readonly code: ErrorCode,
+    message: string,
+    /** Seconds, sent as Retry-After */
+    public readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  get status() {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+export function isApiErrorBody(v: unknown): v is ApiErrorBody {
+  if (!v || typeof v !== "object") return false;
+  const { error, code } = v as Partial<ApiErrorBody>;
+  return typeof error === "string" && typeof code === "string" && code in ERROR_STATUS;
+}
+
+// ---------- Request ----------
+export const DIFF_MODES: DiffMode[] = ["full", "since_last", "since_date"];
+export const MAX_COUNTRIES = 6;
+
+export type PlaylistRequest = {
+  playlistUrl: string;
+  /** Storefronts to compare; the first is the one results link to */
+  countries: string[];
+  /** Provider IDs; unknown ones are ignored */
+  providers: string[];
+  mode: DiffMode;
+  /** ISO date, only for "since_date" */
+  since: string | null;
+};
+
+/** Valid, de-duplicated storefront codes from `countries`, or the single `country`; US when neither */
+export function parseCountries(countries: unknown, country: unknown) {
+  const list = Array.isArray(countries) ? countries : [country];
+  const codes = list
+    .filter((c): c is string => typeof c === "string" && /^[a-z]{2}$/i.test(c))
+    .map((c) => c.toUpperCase());
+  const unique = [...new Set(codes)].slice(0, MAX_COUNTRIES);
+  return unique.length ? unique : ["US"];
+}
+
+/**
+ * Checks a POST body. Optional fields fall back to defaults (a single
+ * `country` still works); anything present with the wrong type is rejected.
+ */
+export function parsePlaylistRequest(body: unknown): PlaylistRequest {
+  if (!body || typeof body !== "object") throw new ApiError("INVALID_REQUEST", "Expected a JSON object");
+  const b = body as Record<string, unknown>;
+
+  if (typeof b.playlistUrl !== "string" || !b.playlistUrl.trim()) {
+    throw new ApiError("INVALID_REQUEST", "playlistUrl required");
+  }
+  if (b.providers !== undefined && !Array.isArray(b.providers)) {
+    throw new ApiError("INVALID_REQUEST", "providers must be a list of store IDs");
+  }
+  if (b.mode !== undefined && !DIFF_MODES.includes(b.mode as DiffMode)) {
+    throw new ApiError("INVALID_REQUEST", `mode must be one of ${DIFF_MODES.join(", ")}`);
+  }
+  const mode = (b.mode as DiffMode | undefined) ?? "full";
+  let since: string | null = null;
+  if (mode === "since_date") {
+    const date = typeof b.since === "string" ? new Date(b.since) : null;
+    if (!date || Number.isNaN(date.getTime())) throw new ApiError("INVALID_REQUEST", "since must be a date");
+    since = date.toISOString();
+  }
+
+  return {
+    playlistUrl: b.playlistUrl.trim(),
+    countries: parseCountries(b.countries, b.country),
+    providers: ((b.providers as unknown[] | undefined) ?? []).filter((p): p is string => typeof p === "string"),
+    mode,
+    since,
+  };
+}
+
+// ---------- Pagination ----------
+export type Page = { offset: number; limit: number };
+
+/** One slice of a longer list; `nextOffset` is null on the last page */
+export type Paginated<T> = Page & { items: T[]; total: number; nextOffset: number | null };
+
+export type PageLimits = { defaultLimit: number; maxLimit: number };
+
+/** ?offset=&limit= (or the same fields in a body), clamped to `maxLimit` */
+export function parsePage(offset: unknown, limit: unknown, { defaultLimit, maxLimit }: PageLimits): Page {
+  const o = offset == null || offset === "" ? 0 : Number(offset);
+  const l = limit == null || limit === "" ? defaultLimit : Number(limit);
+  if (!Number.isInteger(o) || o < 0) throw new ApiError("INVALID_REQUEST", "offset must be a whole number ≥ 0");
+  if (!Number.isInteger(l) || l < 1) throw new ApiError("INVALID_REQUEST", "limit must be a whole number ≥ 1");
+  return { offset: o, limit: Math.min(l, maxLimit) };
+}
+
+export function paginate<T>(all: T[], { offset, limit }: Page): Paginated<T> {
+  const end = offset + limit;
+  return { items: all.slice(offset, end), total: all.length, offset, limit, nextOffset: end < all.length ? end : null };
+}
+
+// ---------- Response ----------
+/** "liked" is the user's Liked Songs, which only exists with a user login */
+export type SourceKind = "playlist" | "album" | "track" | "artist" | "liked";
+export type SpotifySource = { kind: SourceKind; id: string };
+export type ResolvedSource = SpotifySource & { name: string };
+
+export type Track = {
+  /** Spotify track ID; null for local files */
+  id: string | null;
+  /** When it was added, for playlists and Liked Songs */
+  addedAt: string | null;
+  title: string;
+  artist: string;
+  album?: string;
+  durationMs?: number;
+  releaseDate?: string;
+  isrc?: string;
+  /** A local file in the playlist: searched on its tags, with no Spotify ID or ISRC */
+  local?: true;
+};
+
+/** Why a playlist entry isn't in the track list */
+export type SkipReason = "local_file" | "episode" | "unavailable" | "missing_artist" | "missing_title" | "fetch_failed";
+
+export const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  local_file: "local file without title/artist tags",
+  episode: "podcast episode",
+  unavailable: "not available in this market",
+  missing_artist: "no artist",
+  missing_title: "no title",
+  fetch_failed: "Spotify kept failing on this page",
+};
+
+export type SkippedItem = {
+  /** 0-based position in the playlist, album or library */
+  position: number;
+  title: string | null;
+  artist: string | null;
+  reason: SkipReason;
+};
+
+/** One storefront's answer for a track */
+export type StorefrontOffer = {
+  country: string;
+  status: LookupStatus;
+  price: number | null;
+  currency: string | null;
+  url: string | null;
+};
+
+export type StoreOutcome = {
+  status: LookupStatus;
+  /** The linked match (with its confidence) in the first requested storefront */
+  match: StoreMatch | null;
+  strategy: string | null;
+  /** Runners-up to pick from */
+  alternates: StoreMatch[];
+  searchUrl: string;
+  /** Per requested storefront, in request order; only for per-country providers */
+  storefronts?: StorefrontOffer[];
+};
+
+export type TrackResult = Track & {
+  /** Keyed by provider ID */
+  stores: Record<string, StoreOutcome>;
+  /** The file in the uploaded collection this track matched */
+  inLibrary?: CollectionMatch;
+  error?: string;
+};
+
+/** How a diff run compares to the previous one; null on full runs */
+export type DiffSummary = {
+  mode: Exclude<DiffMode, "full">;
+  /** ISO date for "since_date" */
+  since: string | null;
+  /** When the run we compared against happened (ms since epoch); null on the first run */
+  previousRun: number | null;
+  /** Spotify reports no edits since the previous run */
+  unchanged: boolean;
+  /** In the previous run but gone now */
+  removed: SnapshotTrack[];
+};
+
+/**
+ * One JSON object per line:
+ *   { type: "start", total, source: { kind, id, name }, countries, providers, diff, skipped }
+ *   { type: "track", index, result }   (in completion order, not playlist order)
+ *   { type: "bundles", bundles }       (after the last track; only when a release is worth a look)
+ *   { type: "done", total, matched, unmatched, failed }
+ *   { type: "error", code, error }     (instead of "done" when the run breaks off; the stream ends after it)
+ */
+export type StreamEvent =
+  | {
+      type: "start";
+      total: number;
+      source: ResolvedSource;
+      countries: string[];
+      providers: ProviderMeta[];
+      diff: DiffSummary | null;
+      /** Entries left out of `total`, and why */
+      skipped: SkippedItem[];
+    }
+  | { type: "track"; index: number; result: TrackResult }
+  | { type: "bundles"; bundles: BundleSuggestion[] }
+  | { type: "done"; total: number; matched: number; unmatched: number; failed: number }
+  | { type: "error"; code: ErrorCode; error: string };
+
+// ---------- Bundles ----------
+/** A store's release, as its album page sells it */
+export type AlbumOffer = {
+  title: string;
+  artist: string;
+  url: string;
+  price: number | null;
+  currency: string | null;
+  /** Tracks on the release */
+  trackCount: number | null;
+  /** Price of one track bought alone, for stores whose matches don't carry one (Bandcamp) */
+  trackPrice: number | null;
+};
+
+/** Several matched tracks from one release on one store, and whether to buy the release instead */
+export type BundleSuggestion = {
+  providerId: string;
+  /** Groups matches into releases; see releaseKey in lib/bundles */
+  key: string;
+  album: AlbumOffer;
+  /** Stream indexes of the tracks from this release */
+  trackIndexes: number[];
+  /** What those tracks cost one by one; null when some can't be bought alone or have no price */
+  tracksPrice: number | null;
+  /** Every track of the release is in the list */
+  complete: boolean;
+  /** The release is cheaper than its tracks here, or the list has all of it anyway */
+  buyAlbum: boolean;
+};
+
+// ---------- Posted rows ----------
+// Results the page sends back to /api/share and /api/export.
+const LOOKUP_STATUSES: LookupStatus[] = ["matched", "no_match", "failed", "unchecked"];
+
+/** Thrown for the first thing wrong in a posted row, named by where it is */
+const rowError = (where: string, problem: string) => new ApiError("INVALID_REQUEST", `${where}: ${problem}`);
+
+type Fields = Record<string, unknown>;
+
+function objectAt(where: string, v: unknown): Fields {
+  if (!v || typeof v !== "object" || Array.isArray(v)) throw rowError(where, "expected an object");
+  return v as Fields;
+}
+
+function stringAt(where: string, v: unknown): string {
+  if (typeof v !== "string") throw rowError(where, "expected a string");
+  return v;
+}
+
+const nullableStringAt = (where: string, v: unknown) => (v == null ? null : stringAt(where, v));
+const optionalStringAt = (where: string, v: unknown) => (v === undefined ? undefined : stringAt(where, v));
+
+function numberAt(where: string, v: unknown): number {
+  if (typeof v !== "number" || !Number.isFinite(v)) throw rowError(where, "expected a number");
+  return v;
+}
+
+const nullableNumberAt = (where: string, v: unknown) => (v == null ? null : numberAt(where, v));
+
+function statusAt(where: string, v: unknown): LookupStatus {
+  if (!LOOKUP_STATUSES.includes(v as LookupStatus)) {
+    throw rowError(where, `expected one of ${LOOKUP_STATUSES.join(", ")}`);
+  }
+  return v as LookupStatus;
+}
+
+/** Posted links end up in shared pages and exported files, so they have to be on the store's own site */
+function storeUrlAt(where: string, providerId: string, v: unknown): string {
+  const problem = overrideUrlError(providerId, stringAt(where, v));
+  if (problem) throw rowError(where, problem);
+  return v as string;
+}
+
+function matchAt(where: string, providerId: string, v: unknown): StoreMatch {
+  const m = objectAt(where, v);
+  const id = nullableStringAt(`${where}.id`, m.id);
+  // The page builds /go/apple/{id} from it
+  if (id !== null && !/^[\w-]+$/.test(id)) throw rowError(`${where}.id`, "expected a store ID");
+  return {
+    id,
+    albumId: nullableStringAt(`${where}.albumId`, m.albumId),
+    title: stringAt(`${where}.title`, m.title),
+    artist: stringAt(`${where}.artist`, m.artist),
+    album: nullableStringAt(`${where}.album`, m.album),
+    url: m.url == null ? null : storeUrlAt(`${where}.url`, providerId, m.url),
+    // App links are for the sharer's own device; /r/{id} never opens them
+    appLinks: [],
+    price: nullableNumberAt(`${where}.price`, m.price),
+    currency: nullableStringAt(`${where}.currency`, m.currency),
+    confidence: numberAt(`${where}.confidence`, m.confidence),
+  };
+}
+
+function offerAt(where: string, providerId: string, v: unknown): StorefrontOffer {
+  const o = objectAt(where, v);
+  return {
+    country: stringAt(`${where}.country`, o.country),
+    status: statusAt(`${where}.status`, o.status),
+    price: nullableNumberAt(`${where}.price`, o.price),
+    currency: nullableStringAt(`${where}.currency`, o.currency),
+    url: o.url == null ? null : storeUrlAt(`${where}.url`, providerId, o.url),
+  };
+}
+
+function outcomeAt(where: string, providerId: string, v: unknown): StoreOutcome {
+  const o = objectAt(where, v);
+  if (!Array.isArray(o.alternates)) throw rowError(`${where}.alternates`, "expected a list");
+  if (o.storefronts !== undefined && !Array.isArray(o.storefronts)) {
+    throw rowError(`${where}.storefronts`, "expected a list");
+  }
+  const outcome: StoreOutcome = {
+    status: statusAt(`${where}.status`, o.status),
+    match: o.match == null ? null : matchAt(`${where}.match`, providerId, o.match),
+    strategy: nullableStringAt(`${where}.strategy`, o.strategy),
+    alternates: o.alternates.map((a, i) => matchAt(`${where}.alternates[${i}]`, providerId, a)),
+    searchUrl: storeUrlAt(`${where}.searchUrl`, providerId, o.searchUrl),
+  };
+  if (o.storefronts) {
+    outcome.storefronts = o.storefronts.map((f, i) => offerAt(`${where}.storefronts[${i}]`, providerId, f));
+  }
+  return outcome;
+}
+
+/**
+ * A result row posted back by the page (picked alternates included), checked
+ * and rebuilt field by field. The collection match is left off.
+ */
+export function parseResultRow(where: string, v: unknown): TrackResult {
+  const r = objectAt(where, v);
+  const stores: Record<string, StoreOutcome> = {};
+  for (const [providerId, outcome] of Object.entries(objectAt(`${where}.stores`, r.stores))) {
+    if (!Object.hasOwn(PROVIDER_META, providerId)) throw rowError(`${where}.stores`, `unknown store "${providerId}"`);
+    stores[providerId] = outcomeAt(`${where}.stores.${providerId}`, providerId, outcome);
+  }
+  const row: TrackResult = {
+    id: nullableStringAt(`${where}.id`, r.id),
+    addedAt: nullableStringAt(`${where}.addedAt`, r.addedAt),
+    title: stringAt(`${where}.title`, r.title),
+    artist: stringAt(`${where}.artist`, r.artist),
+    album: optionalStringAt(`${where}.album`, r.album),
+    durationMs: r.durationMs === undefined ? undefined : numberAt(`${where}.durationMs`, r.durationMs),
+    releaseDate: optionalStringAt(`${where}.releaseDate`, r.releaseDate),
+    isrc: optionalStringAt(`${where}.isrc`, r.isrc),
+    stores,
+    error: optionalStringAt(`${where}.error`, r.error),
+  };
+  if (r.local === true) row.local = true;
+  return row;
+}
+
+// ---------- Sharing ----------
+/** Days a share link lasts; null keeps it until someone deletes the store */
+export const SHARE_EXPIRY_DAYS = [null, 1, 7, 30] as const;
+export type ShareExpiry = (typeof SHARE_EXPIRY_DAYS)[number];
+
+export type ShareRequest = {
+  source: ResolvedSource;
+  countries: string[];
+  providers: string[];
+  rows: TrackResult[];
+  expiresInDays: ShareExpiry;
+};
+
+/** A result set frozen for /r/{id} */
+export type SharedResult = Omit<ShareRequest, "providers" | "expiresInDays"> & {
+  id: string;
+  providers: ProviderMeta[];
+  /** Spotify cover, for the page and its link preview */
+  imageUrl: string | null;
+  /** ms since epoch */
+  createdAt: number;
+  expiresAt: number | null;
+};
+
+export type ShareResponse = { id: string; url: string; expiresAt: number | null };
+
+export const MAX_SHARED_ROWS = 10_000;
+
+const SOURCE_KINDS: SourceKind[] = ["playlist", "album", "track", "artist", "liked"];
+
+/**
+ * Checks a share body. Every row is checked, since /r/{id} shows them to
+ * anyone with the link, and loses its collection match: that names files on
+ * the sharer's disk.
+ */
+export function parseShareRequest(body: unknown): ShareRequest {
+  if (!body || typeof body !== "object") throw new ApiError("INVALID_REQUEST", "Expected a JSON object");
+  const b = body as Record<string, unknown>;
+  const src = (b.source ?? {}) as Partial<ResolvedSource>;
+  if (!SOURCE_KINDS.includes(src.kind as SourceKind) || typeof src.id !== "string" || typeof src.name !== "string") {
+    throw new ApiError("INVALID_REQUEST", "source must be the { kind, id, name } the results came with");
+  }
+  if (!Array.isArray(b.rows) || !b.rows.length || b.rows.length > MAX_SHARED_ROWS) {
+    throw new ApiError("INVALID_REQUEST", `rows must be a list of 1 to ${MAX_SHARED_ROWS} tracks`);
+  }
+  if (!Array.isArray(b.providers)) throw new ApiError("INVALID_REQUEST", "providers must be a list of store IDs");
+  const expiry = b.expiresInDays ?? null;
+  if (!SHARE_EXPIRY_DAYS.includes(expiry as ShareExpiry)) {
+    throw new ApiError("INVALID_REQUEST", `expiresInDays must be one of ${SHARE_EXPIRY_DAYS.join(", ")}`);
+  }
+
+  return {
+    source: { kind: src.kind as SourceKind, id: src.id, name: src.name },
+    countries: parseCountries(b.countries, undefined),
+    providers: b.providers.filter((p): p is string => typeof p === "string"),
+    rows: b.rows.map((r, i) => parseResultRow(`rows[${i}]`, r)),
+    expiresInDays: expiry as ShareExpiry,
+  };
+}
+
+export function isMatched(r: TrackResult) {
+  return Object.values(r.stores).some((s) => s.status === "matched");
+}
+
+export function isFailed(r: TrackResult) {
+  return Object.values(r.stores).some((s) => s.status === "failed");
+}
@@ -0,0 +1,64 @@
+// ---------- Opening iTunes Store links ----------
+// Which kind of link a browser should get for an Apple track: the iTunes
+// Store app (itms://), the Music app (music://) or the web page. Decided by
+// the user's preference, then by what worked here before, then by platform.
+// Plain functions: the page uses them for the preference control too.
+
+export const APPLE_OPENERS = ["itunes", "music", "web"] as const;
+export type AppleOpener = (typeof APPLE_OPENERS)[number];
+export type ApplePreference = AppleOpener | "auto";
+
+export const APPLE_OPENER_LABELS: Record<ApplePreference, string> = {
+  auto: "whatever works here",
+  itunes: "iTunes Store app",
+  music: "Music app",
+  web: "web page",
+};
+
+/** The user's pick; not httpOnly since the page sets it */
+export const APPLE_PREFERENCE_COOKIE = "speebee_apple_opener";
+/** What the opener page saw: "worked:itunes", "failed:itunes.music" */
+export const APPLE_SEEN_COOKIE = "speebee_apple_seen";
+
+export type AppleSeen = { worked: AppleOpener | null; failed: AppleOpener[] };
+
+const isOpener = (v: string): v is AppleOpener => (APPLE_OPENERS as readonly string[]).includes(v);
+
+export function parsePreference(value: string | undefined): ApplePreference {
+  return value && isOpener(value) ? value : "auto";
+}
+
+export function parseSeen(value: string | undefined): AppleSeen {
+  const [kind, list = ""] = (value ?? "").split(":");
+  const openers = list.split(".").filter(isOpener);
+  if (kind === "worked" && openers.length) return { worked: openers[0], failed: [] };
+  if (kind === "failed") return { worked: null, failed: openers };
+  return { worked: null, failed: [] };
+}
+
+export function formatSeen({ worked, failed }: AppleSeen) {
+  return worked ? `worked:${worked}` : `failed:${failed.join(".")}`;
+}
+
+/** Apple devices have the store app (or the Music app's store); everyone else gets the web page */
+export function platformOpener(userAgent: string): AppleOpener {
+  return /iPhone|iPad|iPod|Macintosh|Mac OS X/.test(userAgent) ? "itunes" : "web";
+}
+
+export function chooseOpener(preference: ApplePreference, seen: AppleSeen, userAgent: string): AppleOpener {
+  if (preference !== "auto") return preference;
+  if (seen.worked) return seen.worked;
+  const guess = platformOpener(userAgent);
+  return seen.failed.includes(guess) ? "web" : guess;
+}
+
+export type AppleTrackLinks = { trackId: string; collectionId: string | null; webUrl: string; country: string };
+
+/** The link for one opener; app links fall back to the song page when we don't know the album */
+export function appleLink(opener: AppleOpener, { trackId, collectionId, webUrl, country }: AppleTrackLinks) {
+  const cc = country.toLowerCase();
+  const path = collectionId ? `${cc}/album/${collectionId}?i=${trackId}` : `${cc}/song/${trackId}`;
+  if (opener === "itunes") return `itms://itunes.apple.com/${path}${collectionId ? "&" : "?"}app=itunes`;
+  if (opener === "music") return `music://music.apple.com/${path}`;
+  return webUrl;
+}
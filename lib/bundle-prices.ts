@@ -0,0 +1,47 @@
+// ---------- Pricing bundles ----------
+// Looks up the releases behind a run's matches (one iTunes lookup for all
+// albums, two Bandcamp pages per release) and turns them into suggestions.
+
+import type { AlbumOffer, BundleSuggestion, TrackResult } from "@/lib/api";
+import { groupByRelease, toSuggestion, type ReleaseGroup } from "@/lib/bundles";
+import { lookupAlbums } from "@/lib/providers/apple";
+import { lookupRelease } from "@/lib/providers/bandcamp";
+
+/** Each Bandcamp release costs a page or two through the store's queue; only the biggest are worth it */
+const MAX_BANDCAMP_RELEASES = 20;
+
+async function albumsFor(groups: ReleaseGroup[], country: string): Promise<(AlbumOffer | null)[]> {
+  const appleIds = groups.flatMap((g) => (g.providerId === "apple" && g.sample.albumId ? [g.sample.albumId] : []));
+  const appleAlbums = appleIds.length
+    ? await lookupAlbums(appleIds, country).catch(() => new Map<string, AlbumOffer>())
+    : new Map<string, AlbumOffer>();
+
+  let bandcampLeft = MAX_BANDCAMP_RELEASES;
+  return Promise.all(
+    groups.map(async (g) => {
+      if (g.providerId === "apple") return appleAlbums.get(g.sample.albumId ?? "") ?? null;
+      if (g.providerId === "bandcamp" && bandcampLeft-- > 0) {
+        return lookupRelease(g.sample, g.albumPage).catch(() => null);
+      }
+      return null;
+    })
+  );
+}
+
+/**
+ * Releases on iTunes and Bandcamp that two or more matched tracks come from.
+ * Stores that can't be reached just don't get suggestions.
+ */
+export async function suggestBundles(
+  results: (TrackResult | undefined)[],
+  providerIds: string[],
+  country: string
+): Promise<BundleSuggestion[]> {
+  const groups = groupByRelease(results, providerIds);
+  if (!groups.length) return [];
+  const albums = await albumsFor(groups, country);
+  return groups.flatMap((g, i) => {
+    const album = albums[i];
+    return album ? [toSuggestion(g, album, results)] : [];
+  });
+}
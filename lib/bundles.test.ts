@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import type { AlbumOffer, StoreOutcome, TrackResult } from "@/lib/api";
+import { groupByRelease, spendByStore, toSuggestion } from "@/lib/bundles";
+import type { StoreMatch } from "@/lib/providers/types";
+
+const match = (fields: Partial<StoreMatch>): StoreMatch => ({
+  id: null,
+  albumId: null,
+  title: "Song",
+  artist: "Sunset Tapes",
+  album: null,
+  url: null,
+  appLinks: [],
+  price: null,
+  currency: null,
+  confidence: 1,
+  ...fields,
+});
+
+const matched = (m: StoreMatch, strategy = "track"): StoreOutcome => ({
+  status: "matched",
+  match: m,
+  strategy,
+  alternates: [],
+  searchUrl: "https://example.com/search",
+});
+
+const result = (title: string, stores: Record<string, StoreOutcome>): TrackResult => ({
+  id: null,
+  addedAt: null,
+  title,
+  artist: "Sunset Tapes",
+  stores,
+});
+
+/** An iTunes track from collection 100 unless given another */
+const apple = (id: string, price: number | null = 1.29, albumId = "100") =>
+  matched(match({ id, albumId, price, currency: "USD" }));
+/** A Bandcamp track on the Night Drive album page of the artist's subdomain */
+const bandcamp = (slug: string, host = "sunsettapes.bandcamp.com") =>
+  matched(match({ url: `https://${host}/track/${slug}`, album: "Night Drive" }));
+
+const album = (fields: Partial<AlbumOffer> = {}): AlbumOffer => ({
+  title: "Night Drive",
+  artist: "Sunset Tapes",
+  url: "https://example.com/album",
+  price: 9.99,
+  currency: "USD",
+  trackCount: 10,
+  trackPrice: null,
+  ...fields,
+});
+
+describe("groupByRelease", () => {
+  it("groups matches per store and release, biggest first, dropping lone tracks", () => {
+    const results = [
+      result("A", { apple: apple("1"), bandcamp: bandcamp("a") }),
+      result("B", { apple: apple("2", 1.29, "200"), bandcamp: bandcamp("b") }),
+      result("C", { apple: apple("3"), bandcamp: bandcamp("c") }),
+      result("D", { apple: apple("4", 1.29, "300"), bandcamp: bandcamp("d", "palmhouse.bandcamp.com") }),
+      undefined,
+      result("F", { bandcamp: bandcamp("f") }),
+    ];
+    const groups = groupByRelease(results, ["apple", "bandcamp"]);
+    expect(groups.map((g) => [g.key, g.trackIndexes])).toEqual([
+      ["bandcamp:sunsettapes.bandcamp.com|night drive", [0, 1, 2, 5]],
+      ["apple:100", [0, 2]],
+    ]);
+    expect(groups[0]).toMatchObject({ providerId: "bandcamp", albumPage: false, sample: { url: expect.any(String) } });
+  });
+
+  it("treats a Bandcamp album-page match as its own release", () => {
+    const page = matched(match({ url: "https://sunsettapes.bandcamp.com/album/night-drive" }), "album");
+    const [group] = groupByRelease([result("A", { bandcamp: page }), result("B", { bandcamp: page })], ["bandcamp"]);
+    expect(group).toMatchObject({ key: "bandcamp:https://sunsettapes.bandcamp.com/album/night-drive", albumPage: true });
+  });
+
+  it("ignores matches that aren't linked", () => {
+    const unlinked: StoreOutcome = { ...apple("1"), status: "no_match" };
+    expect(groupByRelease([result("A", { apple: unlinked }), result("B", { apple: unlinked })], ["apple"])).toEqual([]);
+  });
+});
+
+describe("toSuggestion", () => {
+  const results = [result("A", { apple: apple("1") }), result("B", { apple: apple("2") })];
+  const [group] = groupByRelease(results, ["apple"]);
+
+  it("suggests the release when it costs less than its tracks", () => {
+    expect(toSuggestion(group, album({ price: 1.99 }), results)).toMatchObject({
+      tracksPrice: 2.58,
+      complete: false,
+      buyAlbum: true,
+    });
+  });
+
+  it("keeps to the tracks when the release costs more", () => {
+    expect(toSuggestion(group, album(), results)).toMatchObject({ tracksPrice: 2.58, buyAlbum: false });
+  });
+
+  it("suggests a release the list has all of, counting repeated tracks once", () => {
+    const twice = [...results, result("A again", { apple: apple("1") })];
+    const [all] = groupByRelease(twice, ["apple"]);
+    expect(toSuggestion(all, album({ trackCount: 2 }), twice)).toMatchObject({ complete: true, buyAlbum: true });
+    expect(toSuggestion(all, album({ trackCount: 3 }), twice).complete).toBe(false);
+  });
+
+  it("can't price the tracks when one is album-only", () => {
+    const partly = [results[0], result("B", { apple: apple("2", null) })];
+    const [g] = groupByRelease(partly, ["apple"]);
+    expect(toSuggestion(g, album({ price: 1.99 }), partly)).toMatchObject({ tracksPrice: null, buyAlbum: false });
+  });
+
+  it("prices tracks from the release's own track price", () => {
+    const sold = [result("A", { bandcamp: bandcamp("a") }), result("B", { bandcamp: bandcamp("b") })];
+    const [g] = groupByRelease(sold, ["bandcamp"]);
+    const offer = album({ price: 1.5, currency: "GBP", trackPrice: 1 });
+    expect(toSuggestion(g, offer, sold)).toMatchObject({ tracksPrice: 2, buyAlbum: true });
+  });
+});
+
+describe("spendByStore", () => {
+  it("takes suggested releases whole and adds up the other tracks", () => {
+    const results = [
+      result("A", { apple: apple("1") }),
+      result("B", { apple: apple("2") }),
+      result("C", { apple: apple("3", 0.99, "200") }),
+      result("D", { apple: apple("4", null, "300") }),
+    ];
+    const bundle = toSuggestion(groupByRelease(results, ["apple"])[0], album({ price: 1.99 }), results);
+    const [spend] = spendByStore(results, [bundle], ["apple"]);
+    expect(spend.totals).toEqual({ USD: 2.98 });
+    expect(spend.albums).toEqual([bundle]);
+    expect(spend.tracks).toEqual([
+      { index: 2, price: 0.99, currency: "USD" },
+      { index: 3, price: null, currency: null },
+    ]);
+    expect(spend.unpriced).toBe(1);
+  });
+
+  it("buys a track alone once it's been repicked off the release", () => {
+    const results = [result("A", { apple: apple("1") }), result("B", { apple: apple("2") })];
+    const bundle = toSuggestion(groupByRelease(results, ["apple"])[0], album({ price: 1.99 }), results);
+    results[1] = result("B", { apple: apple("9", 0.99, "900") });
+    const [spend] = spendByStore(results, [bundle], ["apple"]);
+    expect(spend.albums).toEqual([]);
+    expect(spend.totals).toEqual({ USD: 2.28 });
+  });
+
+  it("estimates Bandcamp tracks from their release and keeps currencies apart", () => {
+    const results = [
+      result("A", { apple: apple("1"), bandcamp: bandcamp("a") }),
+      result("B", { apple: apple("2"), bandcamp: bandcamp("b") }),
+    ];
+    const [group] = groupByRelease(results, ["bandcamp"]);
+    const bundle = toSuggestion(group, album({ price: 7, currency: "GBP", trackPrice: 1 }), results);
+    const [appleSpend, bandcampSpend] = spendByStore(results, [bundle], ["apple", "bandcamp"]);
+    expect(appleSpend.totals).toEqual({ USD: 2.58 });
+    expect(bandcampSpend).toMatchObject({ totals: { GBP: 2 }, albums: [], unpriced: 0 });
+    expect(bandcampSpend.tracks).toEqual([
+      { index: 0, price: 1, currency: "GBP" },
+      { index: 1, price: 1, currency: "GBP" },
+    ]);
+  });
+});
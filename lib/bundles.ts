@@ -0,0 +1,167 @@
+// ---------- Album bundles ----------
+// Matched tracks that come from the same release on a store, and whether
+// buying the release beats buying them one by one. Plain functions: the
+// route groups and prices releases, and the page redoes the totals when
+// someone picks a different match.
+
+import type { AlbumOffer, BundleSuggestion, StoreOutcome, TrackResult } from "@/lib/api";
+import { approxUsd } from "@/lib/prices";
+import type { StoreMatch } from "@/lib/providers/types";
+
+/** Fewer matched tracks than this and the release isn't worth suggesting */
+export const MIN_BUNDLE_TRACKS = 2;
+
+/**
+ * Which release a store's match belongs to, or null when we can't tell.
+ * iTunes matches carry the collection ID. Bandcamp has no IDs: an album page
+ * match is its own release, and a track belongs to its album on the same
+ * artist or label subdomain.
+ */
+export function releaseKey(providerId: string, store: StoreOutcome | undefined): string | null {
+  const m = store?.status === "matched" ? store.match : null;
+  if (!m) return null;
+  if (providerId === "apple") return m.albumId ? `apple:${m.albumId}` : null;
+  if (providerId === "bandcamp" && m.url) {
+    if (store?.strategy === "album") return `bandcamp:${m.url}`;
+    if (!m.album) return null;
+    try {
+      return `bandcamp:${new URL(m.url).host}|${m.album.toLowerCase()}`;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+export type ReleaseGroup = {
+  providerId: string;
+  key: string;
+  trackIndexes: number[];
+  /** One of the matches, to look the release up from */
+  sample: StoreMatch;
+  /** The sample is the album page itself rather than a track on it */
+  albumPage: boolean;
+};
+
+/** Matched tracks grouped by store and release, biggest groups first */
+export function groupByRelease(results: (TrackResult | undefined)[], providerIds: string[]): ReleaseGroup[] {
+  const groups = new Map<string, ReleaseGroup>();
+  results.forEach((r, index) => {
+    if (!r) return;
+    for (const providerId of providerIds) {
+      const store = r.stores[providerId];
+      const key = releaseKey(providerId, store);
+      if (!key || !store?.match) continue;
+      const group = groups.get(key);
+      if (group) group.trackIndexes.push(index);
+      else {
+        const albumPage = store.strategy === "album";
+        groups.set(key, { providerId, key, trackIndexes: [index], sample: store.match, albumPage });
+      }
+    }
+  });
+  return [...groups.values()]
+    .filter((g) => g.trackIndexes.length >= MIN_BUNDLE_TRACKS)
+    .sort((a, b) => b.trackIndexes.length - a.trackIndexes.length);
+}
+
+/** Sum of the group's track prices, in the release's currency; null when any is missing */
+function tracksPriceOf(group: ReleaseGroup, album: AlbumOffer, results: (TrackResult | undefined)[]) {
+  if (album.trackPrice != null) return Math.round(album.trackPrice * group.trackIndexes.length * 100) / 100;
+  let sum = 0;
+  for (const i of group.trackIndexes) {
+    const m = results[i]?.stores[group.providerId]?.match;
+    if (m?.price == null || (album.currency && m.currency !== album.currency)) return null;
+    sum += m.price;
+  }
+  return Math.round(sum * 100) / 100;
+}
+
+export function toSuggestion(
+  group: ReleaseGroup,
+  album: AlbumOffer,
+  results: (TrackResult | undefined)[]
+): BundleSuggestion {
+  const tracksPrice = tracksPriceOf(group, album, results);
+  // The same recording can sit in a playlist twice; count it once
+  const distinct = new Set(
+    group.trackIndexes.map((i) => {
+      const m = results[i]?.stores[group.providerId]?.match;
+      return m?.id ?? m?.url ?? String(i);
+    })
+  ).size;
+  const complete = album.trackCount != null && distinct >= album.trackCount;
+  const cheaper = album.price != null && tracksPrice != null && album.price < tracksPrice;
+  return {
+    providerId: group.providerId,
+    key: group.key,
+    album,
+    trackIndexes: group.trackIndexes,
+    tracksPrice,
+    complete,
+    buyAlbum: album.price != null && (cheaper || complete),
+  };
+}
+
+// ---------- Spend ----------
+export type StoreSpend = {
+  providerId: string;
+  /** Amount per currency; Bandcamp artists price in their own */
+  totals: Record<string, number>;
+  /** Releases bought whole instead of their tracks */
+  albums: BundleSuggestion[];
+  /** Tracks bought one by one, by stream index, with the price paid (estimated for Bandcamp) */
+  tracks: { index: number; price: number | null; currency: string | null }[];
+  /** Matched tracks with no price to add (album-only or unlisted) */
+  unpriced: number;
+};
+
+/**
+ * What buying everything matched on each store would cost, taking the
+ * suggested releases whole. A suggestion only covers tracks still matched
+ * to that release, so a pick made after the run counts as a single track.
+ */
+export function spendByStore(
+  results: (TrackResult | undefined)[],
+  bundles: BundleSuggestion[],
+  providerIds: string[]
+): StoreSpend[] {
+  return providerIds.map((providerId) => {
+    const spend: StoreSpend = { providerId, totals: {}, albums: [], tracks: [], unpriced: 0 };
+    const add = (price: number, currency: string) =>
+      (spend.totals[currency] = Math.round(((spend.totals[currency] ?? 0) + price) * 100) / 100);
+    const covered = new Set<number>();
+    // Bandcamp matches have no price of their own; their release page gave one
+    const estimated = new Map<number, { price: number; currency: string }>();
+    for (const b of bundles) {
+      if (b.providerId !== providerId) continue;
+      const still = b.trackIndexes.filter((i) => releaseKey(providerId, results[i]?.stores[providerId]) === b.key);
+      const { price, currency, trackPrice } = b.album;
+      if (trackPrice != null && currency) still.forEach((i) => estimated.set(i, { price: trackPrice, currency }));
+      if (!b.buyAlbum || price == null || !currency || still.length < MIN_BUNDLE_TRACKS) continue;
+      still.forEach((i) => covered.add(i));
+      spend.albums.push(b);
+      add(price, currency);
+    }
+    results.forEach((r, i) => {
+      const m = r?.stores[providerId]?.status === "matched" ? r.stores[providerId].match : null;
+      if (!m || covered.has(i)) return;
+      const priced = m.price != null && m.currency ? { price: m.price, currency: m.currency } : estimated.get(i);
+      spend.tracks.push({ index: i, price: priced?.price ?? null, currency: priced?.currency ?? null });
+      if (priced) add(priced.price, priced.currency);
+      else spend.unpriced++;
+    });
+    return spend;
+  });
+}
+
+/** Totals in USD where every currency has a rate, to say which store is cheapest overall */
+export function approxTotalUsd(totals: Record<string, number>) {
+  let sum = 0;
+  for (const [currency, amount] of Object.entries(totals)) {
+    const usd = approxUsd(amount, currency);
+    if (usd == null) return null;
+    sum += usd;
+  }
+  return sum;
+}
@@ -0,0 +1,141 @@
+// ---------- Lookup cache ----------
+// Store lookups for a while so re-running the same weekly playlist only hits
+// the stores for tracks we haven't seen. Empty results are cached too, but
+// for less time, since a store may pick the release up later.
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export type CacheEntry = { value: unknown; expiresAt: number };
+
+/** Anything that can hold entries: memory by default, a JSON file when self-hosting */
+export type CacheStore = {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+};
+
+export function createMemoryStore(maxEntries = 10_000): CacheStore {
+  // Map keeps insertion order, so the first key is the oldest write
+  const entries = new Map<string, CacheEntry>();
+  return {
+    async get(key) {
+      return entries.get(key);
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      if (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) entries.delete(oldest);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/** Pending writes of every file store, for processes that exit instead of idling */
+const fileFlushes = new Set<() => Promise<void>>();
+
+/** Write out whatever file stores are still waiting to; the CLI calls this before exiting */
+export async function flushFileStores() {
+  await Promise.all([...fileFlushes].map((flush) => flush().catch(() => {})));
+}
+
+/**
+ * Whole cache in one JSON file, loaded on first use and written back a
+ * moment after the last change. Fine for one self-hosted instance; not
+ * meant for several processes sharing a file.
+ */
+export function createFileStore(path: string, flushDelayMs = 1000): CacheStore {
+  let entries: Map<string, CacheEntry> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  async function load() {
+    if (entries) return entries;
+    const now = Date.now();
+    try {
+      const raw: Record<string, CacheEntry> = JSON.parse(await readFile(path, "utf8"));
+      entries = new Map(Object.entries(raw).filter(([, e]) => e.expiresAt > now));
+    } catch {
+      // Missing or corrupt file: start empty, it gets rewritten on the next set
+      entries = new Map();
+    }
+    return entries;
+  }
+
+  async function flush() {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (!entries) return;
+    const now = Date.now();
+    const live = Object.fromEntries([...entries].filter(([, e]) => e.expiresAt > now));
+    await mkdir(dirname(path), { recursive: true });
+    const tmp = `${path}.tmp`;
+    await writeFile(tmp, JSON.stringify(live));
+    await rename(tmp, path);
+  }
+  function scheduleFlush() {
+    if (timer) return;
+    timer = setTimeout(() => void flush().catch(() => {}), flushDelayMs);
+    timer.unref?.();
+  }
+  fileFlushes.add(async () => {
+    if (timer) await flush();
+  });
+
+  return {
+    async get(key) {
+      return (await load()).get(key);
+    },
+    async set(key, entry) {
+      (await load()).set(key, entry);
+      scheduleFlush();
+    },
+    async delete(key) {
+      if ((await load()).delete(key)) scheduleFlush();
+    },
+  };
+}
+
+export type CacheOptions = {
+  ttlMs: number;
+  /** TTL for results `isNegative` says are empty */
+  negativeTtlMs: number;
+};
+
+export function createCache(store: CacheStore, { ttlMs, negativeTtlMs }: CacheOptions) {
+  /**
+   * Return the cached value for `key`, or run `load` and cache its result.
+   * `refresh` skips the read but still stores the fresh value. Errors from
+   * `load` are never cached.
+   */
+  async function wrap<T>(
+    key: string,
+    load: () => Promise<T>,
+    opts: { isNegative?: (value: T) => boolean; refresh?: boolean } = {}
+  ): Promise<T> {
+    if (!opts.refresh) {
+      const hit = await store.get(key).catch(() => undefined);
+      if (hit && hit.expiresAt > Date.now()) return hit.value as T;
+    }
+    const value = await load();
+    const ttl = opts.isNegative?.(value) ? negativeTtlMs : ttlMs;
+    await store.set(key, { value, expiresAt: Date.now() + ttl }).catch(() => {});
+    return value;
+  }
+
+  return { wrap };
+}
+
+export type Cache = ReturnType<typeof createCache>;
+
+/** LOOKUP_CACHE=file (with LOOKUP_CACHE_FILE) persists across restarts; anything else stays in memory */
+export function storeFromEnv(): CacheStore {
+  if (process.env.LOOKUP_CACHE === "file") {
+    return createFileStore(process.env.LOOKUP_CACHE_FILE || ".cache/lookups.json");
+  }
+  return createMemoryStore();
+}
@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Collection } from "@/lib/collection";
+import { clearCollection, getCollection, getCollectionIndex, saveCollection } from "@/lib/collection-store";
+
+// A cookie jar standing in for the request's cookies
+const jar = new Map<string, string>();
+vi.mock("next/headers", () => ({
+  cookies: async () => ({
+    get: (name: string) => (jar.has(name) ? { name, value: jar.get(name) } : undefined),
+    set: (name: string, value: string) => jar.set(name, value),
+    delete: (name: string) => jar.delete(name),
+  }),
+}));
+
+const collection = (importedAt: number): Collection => ({
+  format: "m3u",
+  name: "mix.m3u",
+  importedAt,
+  entries: [{ title: "Night Drive", artist: "Sunset Tapes", file: "/music/night-drive.mp3" }],
+});
+
+beforeEach(() => {
+  jar.clear();
+});
+
+describe("collection store", () => {
+  it("reuses the index until the collection is replaced", async () => {
+    await saveCollection(collection(1));
+    const first = await getCollectionIndex();
+    expect(first).not.toBeNull();
+    expect(await getCollectionIndex()).toBe(first);
+
+    await saveCollection(collection(2));
+    expect(await getCollectionIndex()).not.toBe(first);
+  });
+
+  it("deletes the upload when cleared, not just the cookie", async () => {
+    await saveCollection(collection(3));
+    const cookie = [...jar];
+    await clearCollection();
+    expect(jar.size).toBe(0);
+
+    // Bringing the old cookie back finds nothing
+    for (const [name, value] of cookie) jar.set(name, value);
+    expect(await getCollection()).toBeNull();
+    expect(await getCollectionIndex()).toBeNull();
+  });
+});
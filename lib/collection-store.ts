@@ -0,0 +1,74 @@
+// ---------- Server-side collections ----------
+// An uploaded collection stays on the server; the browser only holds a
+// random ID for it in a cookie, so no login is needed.
+
+import { randomUUID } from "node:crypto";
+import { cookies } from "next/headers";
+import { createFileStore, createMemoryStore, type CacheStore } from "@/lib/cache";
+import { cookieOptions } from "@/lib/session";
+import { indexCollection, type Collection, type CollectionIndex } from "@/lib/collection";
+
+const COLLECTION_COOKIE = "speebee_collection";
+const KEEP_SECONDS = 365 * 24 * 60 * 60;
+
+/** Same switch as the lookup cache: LOOKUP_CACHE=file keeps collections across restarts */
+function storeFromEnv(): CacheStore {
+  if (process.env.LOOKUP_CACHE === "file") {
+    return createFileStore(process.env.COLLECTION_FILE || ".cache/collections.json");
+  }
+  // Collections can be tens of thousands of tracks, so keep only a few in memory
+  return createMemoryStore(50);
+}
+
+const store = storeFromEnv();
+
+async function loadCollection(id: string): Promise<Collection | null> {
+  const entry = await store.get(`collection:${id}`).catch(() => undefined);
+  return entry && entry.expiresAt > Date.now() ? (entry.value as Collection) : null;
+}
+
+export async function getCollection(): Promise<Collection | null> {
+  const id = (await cookies()).get(COLLECTION_COOKIE)?.value;
+  return id ? loadCollection(id) : null;
+}
+
+// Indexing tens of thousands of files takes a while, so recent indexes are
+// kept until their collection is replaced (a new importedAt) or cleared
+const MAX_INDEXES = 20;
+const indexes = new Map<string, { importedAt: number; index: CollectionIndex }>();
+
+/** This browser's collection, indexed for matching */
+export async function getCollectionIndex(): Promise<CollectionIndex | null> {
+  const id = (await cookies()).get(COLLECTION_COOKIE)?.value;
+  const collection = id ? await loadCollection(id) : null;
+  if (!id || !collection) return null;
+  const cached = indexes.get(id);
+  // Re-inserted on every use, so the first key is the least recently used
+  indexes.delete(id);
+  const index = cached?.importedAt === collection.importedAt ? cached.index : indexCollection(collection);
+  indexes.set(id, { importedAt: collection.importedAt, index });
+  if (indexes.size > MAX_INDEXES) {
+    const oldest = indexes.keys().next().value;
+    if (oldest !== undefined) indexes.delete(oldest);
+  }
+  return index;
+}
+
+/** Replaces whatever this browser uploaded before */
+export async function saveCollection(collection: Collection) {
+  const jar = await cookies();
+  const id = jar.get(COLLECTION_COOKIE)?.value ?? randomUUID();
+  await store.set(`collection:${id}`, { value: collection, expiresAt: Date.now() + KEEP_SECONDS * 1000 });
+  jar.set(COLLECTION_COOKIE, id, cookieOptions(KEEP_SECONDS));
+}
+
+/** Forgets the upload itself, not just this browser's way back to it */
+export async function clearCollection() {
+  const jar = await cookies();
+  const id = jar.get(COLLECTION_COOKIE)?.value;
+  if (id) {
+    await store.delete(`collection:${id}`);
+    indexes.delete(id);
+  }
+  jar.delete(COLLECTION_COOKIE);
+}
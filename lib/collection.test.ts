@@ -0,0 +1,152 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  indexCollection,
+  parseCollection,
+  parseItunesLibrary,
+  parseM3u,
+  parseRekordboxCollection,
+  type Collection,
+  type CollectionEntry,
+} from "@/lib/collection";
+import * as matching from "@/lib/matching";
+
+vi.mock("@/lib/matching", async (original) => {
+  const actual = await original<typeof import("@/lib/matching")>();
+  return { ...actual, scoreCandidate: vi.fn(actual.scoreCandidate) };
+});
+
+const entry = (title: string, artist = "Artist"): CollectionEntry => ({ title, artist, file: `/music/${title}.mp3` });
+
+const collection = (entries: CollectionEntry[]): Collection => ({
+  format: "m3u",
+  name: "mix.m3u",
+  importedAt: 1,
+  entries,
+});
+
+describe("indexCollection", () => {
+  it("finds a confident match", () => {
+    const index = indexCollection(collection([entry("Night Drive"), entry("Coastline")]));
+    expect(index.match({ title: "Night Drive - Radio Edit", artist: "Artist" })?.file).toBe("/music/Night Drive.mp3");
+    expect(index.match({ title: "Heatwave", artist: "Artist" })).toBeNull();
+  });
+
+  it("doesn't compare against every title that shares a stop word", () => {
+    const common = Array.from({ length: 500 }, (_, i) => entry(`The Song of You ${i}`));
+    const index = indexCollection(collection([...common, entry("The Night of You")]));
+    vi.mocked(matching.scoreCandidate).mockClear();
+    expect(index.match({ title: "The Night of You", artist: "Artist" })?.title).toBe("The Night of You");
+    expect(matching.scoreCandidate).toHaveBeenCalledTimes(1);
+  });
+
+  it("still indexes titles made only of stop words", () => {
+    const index = indexCollection(collection([entry("You & I"), entry("The Song")]));
+    expect(index.match({ title: "You and I", artist: "Artist" })?.title).toBe("You & I");
+  });
+});
+
+const ITUNES = `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+  <key>Tracks</key>
+  <dict>
+    <key>101</key>
+    <dict>
+      <key>Track ID</key><integer>101</integer>
+      <key>Name</key><string>Rock &#38; Roll Motel &#x110000;</string>
+      <key>Artist</key><string>Sunset Tapes</string>
+      <key>Kind</key><string>Purchased AAC audio file</string>
+      <key>Total Time</key><integer>251000</integer>
+      <key>Location</key><string>file:///Users/me/Music/Night%20Drive.m4a</string>
+    </dict>
+    <key>102</key>
+    <dict>
+      <key>Name</key><string>Episode 12</string>
+      <key>Kind</key><string>MPEG-4 video file</string>
+    </dict>
+    <key>103</key>
+    <dict>
+      <key>Name</key><string>Coastline</string>
+      <key>Location</key><string>file://localhost/C:/Music/Coastline.mp3</string>
+    </dict>
+  </dict>
+  <key>Playlists</key>
+  <array><dict><key>Name</key><string>Not a track</string></dict></array>
+</dict>
+</plist>`;
+
+const REKORDBOX = `<?xml version="1.0" encoding="UTF-8"?>
+<DJ_PLAYLISTS Version="1.0.0">
+  <COLLECTION Entries="2">
+    <TRACK TrackID="1" Name="Night Drive (Extended Mix)" Artist="Sunset Tapes &amp; Guest" TotalTime="372"
+      Location="file://localhost/Users/me/Music/Night%20Drive.aiff"/>
+    <TRACK TrackID="2" Name="Heatwave" Artist="Palm House"/>
+  </COLLECTION>
+  <PLAYLISTS><NODE Type="1" Name="Set"><TRACK Key="1"/></NODE></PLAYLISTS>
+</DJ_PLAYLISTS>`;
+
+describe("parseItunesLibrary", () => {
+  it("reads the audio tracks and leaves out videos and the playlists", () => {
+    expect(parseItunesLibrary(ITUNES)).toEqual([
+      // An entity past the last code point is left as written
+      {
+        title: "Rock & Roll Motel &#x110000;",
+        artist: "Sunset Tapes",
+        durationMs: 251000,
+        file: "/Users/me/Music/Night Drive.m4a",
+      },
+      { title: "Coastline", artist: "", file: "C:/Music/Coastline.mp3" },
+    ]);
+  });
+
+  it("finds nothing without a Tracks section", () => {
+    expect(parseItunesLibrary('<plist version="1.0"><dict></dict></plist>')).toEqual([]);
+  });
+});
+
+describe("parseRekordboxCollection", () => {
+  it("reads the collection's tracks, not the playlists' references to them", () => {
+    expect(parseRekordboxCollection(REKORDBOX)).toEqual([
+      {
+        title: "Night Drive (Extended Mix)",
+        artist: "Sunset Tapes & Guest",
+        durationMs: 372000,
+        file: "/Users/me/Music/Night Drive.aiff",
+      },
+      { title: "Heatwave", artist: "Palm House", file: null },
+    ]);
+  });
+});
+
+describe("parseM3u", () => {
+  it("takes artist and title from #EXTINF, else from the file name", () => {
+    const m3u = [
+      "\uFEFF#EXTM3U",
+      "#EXTINF:251,Sunset Tapes - Night Drive",
+      "C:\\Music\\01 Night Drive.mp3",
+      "",
+      "#EXTINF:-1,Coastline",
+      "https://radio.example/coastline",
+      "/music/Palm House - Heatwave.flac",
+    ].join("\r\n");
+    expect(parseM3u(m3u)).toEqual([
+      { title: "Night Drive", artist: "Sunset Tapes", durationMs: 251000, file: "C:\\Music\\01 Night Drive.mp3" },
+      { title: "Coastline", artist: "", file: "https://radio.example/coastline" },
+      { title: "Heatwave", artist: "Palm House", file: "/music/Palm House - Heatwave.flac" },
+    ]);
+  });
+});
+
+describe("parseCollection", () => {
+  it.each([
+    ["itunes", ITUNES],
+    ["rekordbox", REKORDBOX],
+    ["m3u", "/music/Heatwave.mp3"],
+  ])("recognises %s from the content", (format, text) => {
+    expect(parseCollection(text, "upload").format).toBe(format);
+  });
+
+  it("refuses a file with no tracks", () => {
+    expect(() => parseCollection("#EXTM3U\n", "empty.m3u")).toThrow("No tracks found");
+  });
+});
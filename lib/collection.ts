@@ -0,0 +1,183 @@
+// ---------- Existing collection ----------
+// Music the user already has on disk, uploaded as an iTunes/Music
+// Library.xml, a Rekordbox collection export or an M3U/M3U8 playlist, so
+// results can say "already in library" instead of sending them to a store.
+
+import {
+  LOW_CONFIDENCE,
+  cleanTrackTitleForSearch,
+  normalizeTokens,
+  scoreCandidate,
+  type MatchTarget,
+} from "@/lib/matching";
+import { attributes, decodeEntities } from "@/lib/xml";
+
+export type CollectionEntry = {
+  title: string;
+  artist: string;
+  durationMs?: number;
+  /** Path of the file on the user's machine, when the export has one */
+  file: string | null;
+};
+
+export type CollectionFormat = "itunes" | "rekordbox" | "m3u";
+
+export type Collection = {
+  format: CollectionFormat;
+  /** Uploaded file name */
+  name: string;
+  /** ms since epoch */
+  importedAt: number;
+  entries: CollectionEntry[];
+};
+
+/** What a result row shows when the track is already on disk */
+export type CollectionMatch = CollectionEntry & { confidence: number };
+
+/** file:// URLs (iTunes, Rekordbox) become plain paths */
+function toPath(location: string | undefined) {
+  if (!location) return null;
+  if (!/^file:/i.test(location)) return location;
+  try {
+    const path = decodeURIComponent(new URL(location).pathname);
+    // file://localhost/C:/Music/... on Windows
+    return /^\/[a-z]:\//i.test(path) ? path.slice(1) : path;
+  } catch {
+    return location;
+  }
+}
+
+function entry(title: string | undefined, artist: string | undefined, durationMs: number | undefined, file: string | null) {
+  const t = title?.trim();
+  if (!t) return null;
+  return {
+    title: t,
+    artist: artist?.trim() ?? "",
+    ...(durationMs && Number.isFinite(durationMs) ? { durationMs } : {}),
+    file,
+  };
+}
+
+/**
+ * iTunes/Music plist: a "Tracks" dict of one flat dict per track. Only that
+ * section is read; "Playlists" further down nests dicts inside arrays.
+ */
+export function parseItunesLibrary(xml: string): CollectionEntry[] {
+  const start = xml.search(/<key>Tracks<\/key>\s*<dict>/);
+  if (start < 0) return [];
+  const end = xml.indexOf("<key>Playlists</key>", start);
+  const section = xml.slice(start, end < 0 ? undefined : end);
+
+  const out: CollectionEntry[] = [];
+  for (const track of section.matchAll(/<key>[^<]*<\/key>\s*<dict>([\s\S]*?)<\/dict>/g)) {
+    const fields: Record<string, string> = {};
+    for (const f of track[1].matchAll(/<key>([^<]*)<\/key>\s*<(\w+)>([^<]*)<\/\2>/g)) {
+      fields[decodeEntities(f[1])] = decodeEntities(f[3]);
+    }
+    // Podcasts, videos and the like aren't music we'd buy
+    if (fields["Kind"] && !/audio/i.test(fields["Kind"])) continue;
+    const e = entry(fields["Name"], fields["Artist"], Number(fields["Total Time"]) || undefined, toPath(fields["Location"]));
+    if (e) out.push(e);
+  }
+  return out;
+}
+
+/** Rekordbox: <TRACK Name Artist TotalTime(s) Location/> under COLLECTION; playlist TRACKs only carry a Key */
+export function parseRekordboxCollection(xml: string): CollectionEntry[] {
+  const out: CollectionEntry[] = [];
+  for (const tag of xml.matchAll(/<TRACK\b[^>]*>/g)) {
+    const a = attributes(tag[0]);
+    if (!a.Name) continue;
+    const e = entry(a.Name, a.Artist, Number(a.TotalTime) * 1000 || undefined, toPath(a.Location));
+    if (e) out.push(e);
+  }
+  return out;
+}
+
+/** "Artist - Title" from an #EXTINF line or, failing that, the file name */
+function splitArtistTitle(s: string) {
+  const i = s.indexOf(" - ");
+  return i < 0 ? { artist: "", title: s } : { artist: s.slice(0, i), title: s.slice(i + 3) };
+}
+
+export function parseM3u(text: string): CollectionEntry[] {
+  const out: CollectionEntry[] = [];
+  let info: { seconds: number; label: string } | null = null;
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/^\uFEFF/, "").trim();
+    if (!line) continue;
+    const extinf = line.match(/^#EXTINF:\s*(-?\d+(?:\.\d+)?)[^,]*,(.*)$/i);
+    if (extinf) {
+      info = { seconds: Number(extinf[1]), label: extinf[2].trim() };
+      continue;
+    }
+    if (line.startsWith("#")) continue;
+
+    const file = toPath(line);
+    const base = (file ?? line).split(/[\\/]/).pop()?.replace(/\.[a-z0-9]{2,5}$/i, "") ?? "";
+    const { artist, title } = splitArtistTitle(info?.label || base);
+    const e = entry(title, artist, info && info.seconds > 0 ? info.seconds * 1000 : undefined, file);
+    if (e) out.push(e);
+    info = null;
+  }
+  return out;
+}
+
+/** Picks the parser from the content, not the file name */
+export function parseCollection(text: string, name: string): Collection {
+  const format: CollectionFormat = /<DJ_PLAYLISTS\b/.test(text)
+    ? "rekordbox"
+    : /<plist\b/.test(text)
+      ? "itunes"
+      : "m3u";
+  const entries =
+    format === "rekordbox" ? parseRekordboxCollection(text) : format === "itunes" ? parseItunesLibrary(text) : parseM3u(text);
+  if (!entries.length) throw new Error("No tracks found in that file");
+  return { format, name, importedAt: Date.now(), entries };
+}
+
+/** Words so common in titles that indexing on them would pull in most of a collection */
+const STOP_WORDS = new Set([
+  "a", "an", "and", "the", "of", "to", "in", "on", "at", "for", "is", "it", "i", "me", "my", "you", "your", "we",
+  "de", "la", "le", "les", "el", "los", "der", "die", "das",
+]);
+
+/** Title words worth indexing on; all of them when there's nothing but stop words ("You & I") */
+function titleTokens(title: string) {
+  const all = normalizeTokens(cleanTrackTitleForSearch(title) || title);
+  const kept = all.filter((t) => !STOP_WORDS.has(t));
+  return kept.length ? kept : all;
+}
+
+/**
+ * Entries indexed by the words of their title, so each Spotify track is
+ * only scored against files that share at least one of them.
+ */
+export function indexCollection(collection: Collection) {
+  const byToken = new Map<string, CollectionEntry[]>();
+  for (const e of collection.entries) {
+    for (const tok of new Set(titleTokens(e.title))) {
+      const list = byToken.get(tok);
+      if (list) list.push(e);
+      else byToken.set(tok, [e]);
+    }
+  }
+
+  /** The best-scoring file for `target`, if it's a confident match */
+  function match(target: MatchTarget): CollectionMatch | null {
+    const candidates = new Set<CollectionEntry>();
+    for (const tok of titleTokens(target.title)) {
+      for (const e of byToken.get(tok) ?? []) candidates.add(e);
+    }
+    let best: CollectionMatch | null = null;
+    for (const e of candidates) {
+      const confidence = scoreCandidate(target, e);
+      if (confidence >= LOW_CONFIDENCE && (!best || confidence > best.confidence)) best = { ...e, confidence };
+    }
+    return best;
+  }
+
+  return { match };
+}
+
+export type CollectionIndex = ReturnType<typeof indexCollection>;
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { renderExport, type ExportInput, type ExportRow } from "@/lib/export";
+
+const row = (title: string, artist = "Sunset Tapes"): ExportRow => ({
+  title,
+  artist,
+  stores: {
+    apple: {
+      status: "matched",
+      match: {
+        id: "1",
+        albumId: "100",
+        title,
+        artist,
+        album: null,
+        url: "https://music.apple.com/gb/album/x/100?i=1",
+        appLinks: [],
+        price: 0.99,
+        currency: "GBP",
+        confidence: 0.95,
+      },
+      searchUrl: "https://music.apple.com/gb/search?term=x",
+    },
+  },
+});
+
+const input = (...rows: ExportRow[]): ExportInput => ({
+  name: "Night Drive",
+  country: "GB",
+  providers: [{ id: "apple", label: "iTunes", perCountry: true }],
+  rows,
+});
+
+/** Each line's first two fields: title and artist */
+const titles = (body: string, separator: string, newline: string) =>
+  body
+    .split(newline)
+    .slice(1, -1)
+    .map((line) => line.split(separator).slice(0, 2));
+
+describe("CSV", () => {
+  it("quotes commas, quotes and line breaks and ends every row with CRLF", () => {
+    const { body } = renderExport("csv", input(row('Say "Hi", Again'), row("Two\nLines")));
+    expect(body.endsWith("\r\n")).toBe(true);
+    expect(body.split("\r\n")).toHaveLength(4);
+    expect(body).toContain('\r\n"Say ""Hi"", Again",Sunset Tapes,');
+    expect(body).toContain('\r\n"Two\nLines",Sunset Tapes,');
+  });
+
+  it.each([
+    ['=HYPERLINK("https://evil.example")', '"\'=HYPERLINK(""https://evil.example"")"'],
+    ["+1+1", "'+1+1"],
+    ["-2+3", "'-2+3"],
+    ["@SUM(A1)", "'@SUM(A1)"],
+    [" =1+1", "' =1+1"],
+  ])("keeps %s from running as a formula", (title, field) => {
+    const [, line] = renderExport("csv", input(row(title))).body.split("\r\n");
+    expect(line.startsWith(`${field},`)).toBe(true);
+  });
+
+  it("leaves other fields alone", () => {
+    const { body } = renderExport("csv", input(row("Night Drive", "A-ha")));
+    expect(titles(body, ",", "\r\n")).toEqual([["Night Drive", "A-ha"]]);
+  });
+});
+
+describe("TSV", () => {
+  it("turns tabs and line breaks into spaces, since TSV can't quote them", () => {
+    const { body } = renderExport("tsv", input(row("Night\tDrive\r\n(Extended Mix)")));
+    expect(titles(body, "\t", "\n")).toEqual([["Night Drive (Extended Mix)", "Sunset Tapes"]]);
+  });
+
+  it("keeps formulas from running, after the spaces are put in", () => {
+    const { body } = renderExport("tsv", input(row("=1+1", "@Artist"), row("\t=cmd")));
+    expect(titles(body, "\t", "\n")).toEqual([
+      ["'=1+1", "'@Artist"],
+      ["' =cmd", "Sunset Tapes"],
+    ]);
+  });
+});
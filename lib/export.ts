@@ -0,0 +1,344 @@
+// ---------- Exports ----------
+// Turns the rows the page is showing (including alternates the user picked)
+// into files: CSV/TSV for spreadsheets, JSON, an M3U8 playlist of buy links,
+// and an HTML or Markdown shopping list grouped by store.
+
+import { approxUsd, formatPrice } from "@/lib/prices";
+import type { LookupStatus, ProviderMeta, StoreMatch } from "@/lib/providers/types";
+
+export const EXPORT_FORMATS = ["csv", "tsv", "json", "m3u8", "html", "md"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ExportStore = {
+  status: LookupStatus;
+  match: StoreMatch | null;
+  alternates?: StoreMatch[];
+  searchUrl: string;
+  storefronts?: { country: string; status: LookupStatus; price: number | null; currency: string | null }[];
+};
+
+export type ExportRow = {
+  title: string;
+  artist: string;
+  album?: string;
+  durationMs?: number;
+  isrc?: string;
+  stores: Record<string, ExportStore>;
+  inLibrary?: { file: string | null; title: string };
+};
+
+export type ExportInput = {
+  /** Playlist/album name, for titles and the file name */
+  name: string;
+  /** The storefront results link to; prices come from here */
+  country: string;
+  providers: ProviderMeta[];
+  rows: ExportRow[];
+};
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  tsv: "text/tab-separated-values; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  m3u8: "audio/x-mpegurl; charset=utf-8",
+  html: "text/html; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+};
+
+// ---------- Table (CSV / TSV / JSON) ----------
+const percent = (confidence: number | undefined) => (confidence == null ? "" : String(Math.round(confidence * 100)));
+
+function storefrontPrices(store: ExportStore | undefined) {
+  return (store?.storefronts ?? [])
+    .filter((o) => o.price != null && o.currency)
+    .map((o) => `${o.country} ${o.price} ${o.currency}`)
+    .join("; ");
+}
+
+function tableHeader(providers: ProviderMeta[]) {
+  return [
+    "Title",
+    "Artist",
+    "Album",
+    "ISRC",
+    "Duration (s)",
+    "Country",
+    "In library",
+    ...providers.flatMap((p) => [
+      `${p.label} status`,
+      `${p.label} URL`,
+      `${p.label} confidence (%)`,
+      `${p.label} price`,
+      `${p.label} currency`,
+      `${p.label} other storefronts`,
+      `${p.label} alternates`,
+      `${p.label} search`,
+    ]),
+  ];
+}
+
+function tableRow(r: ExportRow, { country, providers }: ExportInput) {
+  return [
+    r.title,
+    r.artist,
+    r.album ?? "",
+    r.isrc ?? "",
+    r.durationMs ? String(Math.round(r.durationMs / 1000)) : "",
+    country,
+    r.inLibrary ? r.inLibrary.file ?? r.inLibrary.title : "",
+    ...providers.flatMap((p) => {
+      const s = r.stores[p.id];
+      const m = s?.match;
+      return [
+        s?.status ?? "",
+        m?.url ?? "",
+        percent(m?.confidence),
+        m?.price != null ? String(m.price) : "",
+        m?.currency ?? "",
+        storefrontPrices(s),
+        (s?.alternates ?? []).map((a) => a.url).filter(Boolean).join(" "),
+        s?.searchUrl ?? "",
+      ];
+    }),
+  ];
+}
+
+/**
+ * Titles come from Spotify and the stores, so one starting with = + - or @
+ * (after any spaces) would run as a formula in a spreadsheet; a leading ' makes it text.
+ */
+function spreadsheetText(value: string) {
+  return /^\s*[=+\-@]/.test(value) ? `'${value}` : value;
+}
+
+/** RFC 4180: quote fields with commas, quotes or line breaks; double embedded quotes; CRLF rows */
+function csvField(value: string) {
+  const text = spreadsheetText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(input: ExportInput) {
+  const lines = [tableHeader(input.providers), ...input.rows.map((r) => tableRow(r, input))];
+  return lines.map((l) => l.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/** Tabs and newlines can't be quoted in TSV, so they become spaces */
+function toTsv(input: ExportInput) {
+  const lines = [tableHeader(input.providers), ...input.rows.map((r) => tableRow(r, input))];
+  return lines.map((l) => l.map((v) => spreadsheetText(v.replace(/[\t\r\n]+/g, " "))).join("\t")).join("\n") + "\n";
+}
+
+function toJson({ name, country, providers, rows }: ExportInput) {
+  return JSON.stringify(
+    {
+      name,
+      country,
+      exportedAt: new Date().toISOString(),
+      providers,
+      tracks: rows.map((r) => ({
+        title: r.title,
+        artist: r.artist,
+        album: r.album ?? null,
+        isrc: r.isrc ?? null,
+        durationMs: r.durationMs ?? null,
+        inLibrary: r.inLibrary ?? null,
+        stores: Object.fromEntries(
+          providers
+            .filter((p) => r.stores[p.id])
+            .map((p) => {
+              const s = r.stores[p.id];
+              return [
+                p.id,
+                {
+                  status: s.status,
+                  match: s.match,
+                  alternates: s.alternates ?? [],
+                  storefronts: s.storefronts ?? [],
+                  searchUrl: s.searchUrl,
+                },
+              ];
+            })
+        ),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+// ---------- Playlist ----------
+/** First matched store in provider order, else the first search page */
+function bestLink(r: ExportRow, providers: ProviderMeta[]) {
+  for (const p of providers) {
+    const url = r.stores[p.id]?.match?.url;
+    if (url) return url;
+  }
+  return providers.map((p) => r.stores[p.id]?.searchUrl).find(Boolean) ?? null;
+}
+
+function toM3u8({ providers, rows }: ExportInput) {
+  const lines = ["#EXTM3U"];
+  for (const r of rows) {
+    const url = bestLink(r, providers);
+    if (!url) continue;
+    const seconds = r.durationMs ? Math.round(r.durationMs / 1000) : -1;
+    lines.push(`#EXTINF:${seconds},${`${r.artist} - ${r.title}`.replace(/[\r\n]+/g, " ")}`, url);
+  }
+  return lines.join("\n") + "\n";
+}
+
+// ---------- Shopping list (HTML / Markdown) ----------
+type ListItem = { row: ExportRow; match: StoreMatch | null; searchUrl: string | null };
+type ShoppingList = {
+  byStore: { provider: ProviderMeta; items: ListItem[]; totals: Record<string, number> }[];
+  notFound: ListItem[];
+  owned: ExportRow[];
+};
+
+/** Each track goes to its cheapest matched store; unpriced matches go to the first store that has one */
+function shoppingList({ providers, rows }: ExportInput): ShoppingList {
+  const byStore = providers.map((provider) => ({ provider, items: [] as ListItem[], totals: {} as Record<string, number> }));
+  const notFound: ListItem[] = [];
+  const owned: ExportRow[] = [];
+
+  for (const row of rows) {
+    if (row.inLibrary) {
+      owned.push(row);
+      continue;
+    }
+    let pick: number | null = null;
+    let pickUsd = Infinity;
+    for (const [i, p] of providers.entries()) {
+      const m = row.stores[p.id]?.match;
+      if (!m) continue;
+      const usd = m.price != null && m.currency ? approxUsd(m.price, m.currency) : null;
+      if (usd != null && usd < pickUsd) {
+        pick = i;
+        pickUsd = usd;
+      } else if (pick == null) {
+        pick = i;
+      }
+    }
+    if (pick == null) {
+      notFound.push({ row, match: null, searchUrl: bestLink(row, providers) });
+      continue;
+    }
+    const group = byStore[pick];
+    const match = row.stores[group.provider.id].match;
+    group.items.push({ row, match, searchUrl: null });
+    if (match?.price != null && match.currency) {
+      group.totals[match.currency] = (group.totals[match.currency] ?? 0) + match.price;
+    }
+  }
+  return { byStore: byStore.filter((g) => g.items.length), notFound, owned };
+}
+
+function priceText(m: StoreMatch | null) {
+  return m?.price != null && m.currency ? formatPrice(m.price, m.currency) : "price on page";
+}
+
+function totalsText(totals: Record<string, number>) {
+  return Object.entries(totals)
+    .map(([currency, sum]) => formatPrice(sum, currency))
+    .join(" + ");
+}
+
+const escapeHtml = (s: string) =>
+  s
+    .replace(/[\r\n]+/g, " ")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+function toHtml(input: ExportInput) {
+  const list = shoppingList(input);
+  const item = ({ row, match, searchUrl }: ListItem) => {
+    const label = `${escapeHtml(row.artist)} – ${escapeHtml(row.title)}`;
+    const href = match?.url ?? searchUrl;
+    const link = href ? `<a href="${escapeHtml(href)}">${label}</a>` : label;
+    const details = match
+      ? ` <small>${escapeHtml(priceText(match))} · ${percent(match.confidence)}% match</small>`
+      : " <small>search</small>";
+    return `<li><input type="checkbox"> ${link}${details}</li>`;
+  };
+  const sections = [
+    ...list.byStore.map(
+      (g) =>
+        `<h2>${escapeHtml(g.provider.label)} (${input.country})</h2>\n` +
+        `<ul>\n${g.items.map(item).join("\n")}\n</ul>\n` +
+        (Object.keys(g.totals).length ? `<p>Total: ${escapeHtml(totalsText(g.totals))}</p>` : "")
+    ),
+    list.notFound.length ? `<h2>Not found</h2>\n<ul>\n${list.notFound.map(item).join("\n")}\n</ul>` : "",
+    list.owned.length
+      ? `<h2>Already in library</h2>\n<ul>\n${list.owned
+          .map((r) => `<li>${escapeHtml(r.artist)} – ${escapeHtml(r.title)}</li>`)
+          .join("\n")}\n</ul>`
+      : "",
+  ];
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(input.name)}: shopping list</title>
+<style>
+body { font: 14px/1.5 system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+ul { list-style: none; padding: 0; }
+small { color: #666; }
+@media print { a { color: inherit; text-decoration: none; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(input.name)}</h1>
+${sections.filter(Boolean).join("\n")}
+</body>
+</html>
+`;
+}
+
+const escapeMd = (s: string) => s.replace(/[\r\n]+/g, " ").replace(/([\\`*_[\]<>|])/g, "\\$1");
+
+function toMarkdown(input: ExportInput) {
+  const list = shoppingList(input);
+  const item = ({ row, match, searchUrl }: ListItem) => {
+    const label = `${escapeMd(row.artist)} – ${escapeMd(row.title)}`;
+    const href = match?.url ?? searchUrl;
+    const link = href ? `[${label}](<${href}>)` : label;
+    const details = match ? ` · ${priceText(match)} · ${percent(match.confidence)}% match` : " · search";
+    return `- [ ] ${link}${details}`;
+  };
+  const out = [`# ${escapeMd(input.name)}`, ""];
+  for (const g of list.byStore) {
+    out.push(`## ${g.provider.label} (${input.country})`, "", ...g.items.map(item), "");
+    if (Object.keys(g.totals).length) out.push(`Total: ${totalsText(g.totals)}`, "");
+  }
+  if (list.notFound.length) out.push("## Not found", "", ...list.notFound.map(item), "");
+  if (list.owned.length) {
+    out.push("## Already in library", "", ...list.owned.map((r) => `- ${escapeMd(r.artist)} – ${escapeMd(r.title)}`), "");
+  }
+  return out.join("\n");
+}
+
+// ---------- Entry point ----------
+const RENDERERS: Record<ExportFormat, (input: ExportInput) => string> = {
+  csv: toCsv,
+  tsv: toTsv,
+  json: toJson,
+  m3u8: toM3u8,
+  html: toHtml,
+  md: toMarkdown,
+};
+
+export function renderExport(format: ExportFormat, input: ExportInput) {
+  const base =
+    input.name
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9]+/gi, "_")
+      .replace(/^_|_$/g, "") || "playlist";
+  return {
+    body: RENDERERS[format](input),
+    contentType: EXPORT_CONTENT_TYPES[format],
+    filename: `${base}_links.${format}`,
+  };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { readBodyText } from "@/lib/http";
+
+/** A streamed body, so there's no Content-Length to go by */
+function streamed(...chunks: string[]) {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const c of chunks) controller.enqueue(new TextEncoder().encode(c));
+      controller.close();
+    },
+  });
+  return new Request("http://app/upload", { method: "POST", body, duplex: "half" } as RequestInit);
+}
+
+describe("readBodyText", () => {
+  it("reads a body within the limit", async () => {
+    expect(await readBodyText(streamed("Night ", "Drive"), 11)).toBe("Night Drive");
+  });
+
+  it("counts the bytes read, not what Content-Length says", async () => {
+    await expect(readBodyText(streamed("Night ", "Drive"), 10)).rejects.toMatchObject({ code: "PAYLOAD_TOO_LARGE" });
+    const lying = new Request("http://app/upload", {
+      method: "POST",
+      body: "Night Drive",
+      headers: { "Content-Length": "1" },
+    });
+    await expect(readBodyText(lying, 10)).rejects.toMatchObject({ code: "PAYLOAD_TOO_LARGE" });
+  });
+
+  it("refuses a declared length over the limit without reading", async () => {
+    const req = new Request("http://app/upload", { method: "POST", body: "x", headers: { "Content-Length": "500" } });
+    await expect(readBodyText(req, 10, "That file is too big")).rejects.toThrow("That file is too big");
+    expect(req.bodyUsed).toBe(false);
+  });
+});
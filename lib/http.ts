@@ -0,0 +1,58 @@
+// ---------- Error responses ----------
+
+import { ApiError, ERROR_STATUS, type ApiErrorBody, type ErrorCode } from "@/lib/api";
+import { LookupError } from "@/lib/scheduler";
+
+/** ApiError as thrown; throttled lookups as UPSTREAM_RATE_LIMITED; anything else is INTERNAL */
+export function toApiError(e: unknown): ApiError {
+  if (e instanceof ApiError) return e;
+  if (e instanceof LookupError) {
+    return new ApiError(e.status === 429 ? "UPSTREAM_RATE_LIMITED" : "UPSTREAM_UNAVAILABLE", e.message);
+  }
+  return new ApiError("INTERNAL", e instanceof Error ? e.message : "Unknown error");
+}
+
+export function errorResponse(e: unknown) {
+  const { code, message, retryAfter } = toApiError(e);
+  return errorJson(code, message, retryAfter);
+}
+
+export function errorJson(code: ErrorCode, message: string, retryAfter?: number) {
+  const body: ApiErrorBody = { error: message, code };
+  const headers = retryAfter != null ? { "Retry-After": String(Math.ceil(retryAfter)) } : undefined;
+  return Response.json(body, { status: ERROR_STATUS[code], headers });
+}
+
+// ---------- Requests ----------
+/**
+ * The caller's address, for limits on routes without API keys: the first
+ * X-Forwarded-For hop, as the proxy in front of the server sets it.
+ */
+export function clientAddress(req: Request) {
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",")[0].trim();
+  return forwarded || req.headers.get("x-real-ip") || "unknown";
+}
+
+/**
+ * The body as text, refused once more than `maxBytes` have arrived. A
+ * Content-Length over the limit is refused straight away, but the count is
+ * of what's actually read, since the header can lie or be missing.
+ */
+export async function readBodyText(req: Request, maxBytes: number, tooLarge = "Request body is too large") {
+  if (Number(req.headers.get("content-length")) > maxBytes) throw new ApiError("PAYLOAD_TOO_LARGE", tooLarge);
+  if (!req.body) return "";
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new ApiError("PAYLOAD_TOO_LARGE", tooLarge);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
@@ -0,0 +1,27 @@
+// ---------- Server-side purchase libraries ----------
+// One library per connected Spotify user, so it follows them across browsers.
+
+import { createFileStore, createMemoryStore, type CacheStore } from "@/lib/cache";
+import { EMPTY_LIBRARY, type Library } from "@/lib/library";
+
+// Effectively forever; the cache stores just need an expiry
+const KEEP_MS = 10 * 365 * 24 * 60 * 60 * 1000;
+
+/** Same switch as the lookup cache: LOOKUP_CACHE=file keeps libraries across restarts */
+function storeFromEnv(): CacheStore {
+  if (process.env.LOOKUP_CACHE === "file") {
+    return createFileStore(process.env.LIBRARY_FILE || ".cache/libraries.json");
+  }
+  return createMemoryStore(1000);
+}
+
+const store = storeFromEnv();
+
+export async function loadLibrary(userId: string): Promise<Library> {
+  const entry = await store.get(`library:${userId}`);
+  return (entry?.value as Library | undefined) ?? EMPTY_LIBRARY;
+}
+
+export async function storeLibrary(userId: string, library: Library) {
+  await store.set(`library:${userId}`, { value: library, expiresAt: Date.now() + KEEP_MS });
+}
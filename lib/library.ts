@@ -0,0 +1,95 @@
+// ---------- Purchase library ----------
+// Tracks the user has already bought, so later runs can dim or hide them.
+// Kept in the browser (localStorage) and, for a connected Spotify user,
+// mirrored on the server. Entries match by ISRC, or by normalized title and
+// main artist when there's no ISRC, so reordering a playlist doesn't matter.
+
+import { normalizeTokens } from "@/lib/matching";
+
+export const BOUGHT_ON = ["itunes", "bandcamp", "other"] as const;
+export type BoughtOn = (typeof BOUGHT_ON)[number];
+
+export const BOUGHT_ON_LABELS: Record<BoughtOn, string> = {
+  itunes: "iTunes",
+  bandcamp: "Bandcamp",
+  other: "other",
+};
+
+export type OwnedTrack = {
+  title: string;
+  artist: string;
+  isrc?: string;
+  boughtOn: BoughtOn;
+  /** ms since epoch */
+  boughtAt: number;
+};
+
+export type Library = { version: 1; tracks: OwnedTrack[] };
+
+export const EMPTY_LIBRARY: Library = { version: 1, tracks: [] };
+
+type TrackLike = { title: string; artist: string; isrc?: string | null };
+
+/** Normalized title plus the first credited artist */
+export function textKey({ title, artist }: TrackLike) {
+  return `${normalizeTokens(title).join(" ")}|${normalizeTokens(artist.split(",")[0]).join(" ")}`;
+}
+
+export function findOwned(library: Library, track: TrackLike): OwnedTrack | null {
+  const isrc = track.isrc?.toUpperCase();
+  const text = textKey(track);
+  return (
+    library.tracks.find((o) => (isrc && o.isrc?.toUpperCase() === isrc) || textKey(o) === text) ?? null
+  );
+}
+
+export function markOwned(library: Library, track: TrackLike, boughtOn: BoughtOn): Library {
+  const rest = unmarkOwned(library, track).tracks;
+  const entry: OwnedTrack = {
+    title: track.title,
+    artist: track.artist,
+    ...(track.isrc ? { isrc: track.isrc } : {}),
+    boughtOn,
+    boughtAt: Date.now(),
+  };
+  return { version: 1, tracks: [...rest, entry] };
+}
+
+export function unmarkOwned(library: Library, track: TrackLike): Library {
+  const owned = findOwned(library, track);
+  return owned ? { version: 1, tracks: library.tracks.filter((o) => o !== owned) } : library;
+}
+
+/** Everything from both; where the same track is in each, the later purchase wins */
+export function mergeLibraries(a: Library, b: Library): Library {
+  let merged = a;
+  for (const t of b.tracks) {
+    const existing = findOwned(merged, t);
+    if (!existing || existing.boughtAt < t.boughtAt) {
+      merged = { version: 1, tracks: [...unmarkOwned(merged, t).tracks, t] };
+    }
+  }
+  return merged;
+}
+
+/**
+ * Check an imported (or stored) library, dropping entries that aren't
+ * usable. Throws when the whole thing isn't a library export.
+ */
+export function parseLibrary(data: unknown): Library {
+  const tracks = (data as { tracks?: unknown })?.tracks;
+  if (!Array.isArray(tracks)) throw new Error("Not a library export");
+  const valid = tracks.flatMap((t): OwnedTrack[] => {
+    if (!t || typeof t.title !== "string" || typeof t.artist !== "string") return [];
+    return [
+      {
+        title: t.title,
+        artist: t.artist,
+        ...(typeof t.isrc === "string" && t.isrc ? { isrc: t.isrc } : {}),
+        boughtOn: BOUGHT_ON.includes(t.boughtOn) ? t.boughtOn : "other",
+        boughtAt: typeof t.boughtAt === "number" ? t.boughtAt : Date.now(),
+      },
+    ];
+  });
+  return { version: 1, tracks: valid };
+}
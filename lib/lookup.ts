@@ -0,0 +1,99 @@
+// ---------- Store lookups for one track ----------
+// Every requested store side by side, each answer cached, plus the
+// uploaded-collection check. Shared by the page's stream and the v1 API.
+
+import type { StoreOutcome, Track, TrackResult } from "@/lib/api";
+import { createCache, storeFromEnv } from "@/lib/cache";
+import type { CollectionIndex } from "@/lib/collection";
+import { normalizeTokens, parseTitle, versionTokens } from "@/lib/matching";
+import { overrideOutcome, type OverrideIndex } from "@/lib/overrides";
+import type { LookupStatus, ProviderResult, StoreProvider } from "@/lib/providers";
+
+const HOUR = 60 * 60 * 1000;
+const lookupCache = createCache(storeFromEnv(), { ttlMs: 7 * 24 * HOUR, negativeTtlMs: 12 * HOUR });
+
+export type LookupOptions = {
+  providers: StoreProvider[];
+  countries: string[];
+  refresh: boolean;
+  collection: CollectionIndex | null;
+  /** Hand-picked links that replace searching */
+  overrides: OverrideIndex | null;
+};
+
+function errorMessage(e: unknown) {
+  return e instanceof Error ? e.message : "Unknown error";
+}
+
+/** ISRC when we have one, otherwise the normalized words of the title, its version and the artist */
+function trackCacheKey(t: Track) {
+  if (t.isrc) return `isrc:${t.isrc.toUpperCase()}`;
+  const { base, version } = parseTitle(t.title);
+  const title = normalizeTokens(base || t.title).join(" ");
+  return `text:${title}|${versionTokens(version).join(" ")}|${normalizeTokens(t.artist).join(" ")}`;
+}
+
+function statusOf(r: PromiseSettledResult<ProviderResult>): LookupStatus {
+  if (r.status === "rejected") return "failed";
+  if (!r.value.checked) return "unchecked";
+  return r.value.match ? "matched" : "no_match";
+}
+
+/** Ask one provider, once per storefront if its catalogue depends on country */
+async function lookupStore(t: Track, provider: StoreProvider, { countries, refresh, overrides }: LookupOptions) {
+  const override = overrides?.find(provider.id, t);
+  if (override) {
+    return { outcome: overrideOutcome(override.url, t, provider.searchUrl(t, countries[0])), errors: [] as string[] };
+  }
+  const key = trackCacheKey(t);
+  const markets = provider.perCountry ? countries : [countries[0]];
+  const settled = await Promise.allSettled(
+    markets.map((country) =>
+      lookupCache.wrap(
+        provider.perCountry ? `${provider.id}:${country}:${key}` : `${provider.id}:${key}`,
+        () => provider.search(t, country),
+        { refresh, isNegative: (r) => !r.match }
+      )
+    )
+  );
+  const first = settled[0];
+  const primary = first.status === "fulfilled" ? first.value : null;
+  const outcome: StoreOutcome = {
+    status: statusOf(first),
+    match: primary?.match ?? null,
+    strategy: primary?.strategy ?? null,
+    alternates: primary?.alternates ?? [],
+    searchUrl: primary?.searchUrl ?? provider.searchUrl(t, countries[0]),
+  };
+  if (provider.perCountry && markets.length > 1) {
+    outcome.storefronts = settled.map((r, i) => {
+      const match = r.status === "fulfilled" ? r.value.match : null;
+      return {
+        country: markets[i],
+        status: statusOf(r),
+        price: match?.price ?? null,
+        currency: match?.currency ?? null,
+        url: match?.url ?? null,
+      };
+    });
+  }
+  const errors = settled
+    .filter((r): r is PromiseRejectedResult => r.status === "rejected")
+    .map((r) => errorMessage(r.reason));
+  return { outcome, errors };
+}
+
+export async function resolveTrack(t: Track, opts: LookupOptions): Promise<TrackResult> {
+  // Run every store side by side; one failing must not hide the others' links
+  const looked = await Promise.all(opts.providers.map((p) => lookupStore(t, p, opts)));
+  const stores: Record<string, StoreOutcome> = {};
+  opts.providers.forEach((p, i) => (stores[p.id] = looked[i].outcome));
+  const errors = [...new Set(looked.flatMap((l) => l.errors))];
+  const inLibrary = opts.collection?.match(t);
+  return {
+    ...t,
+    stores,
+    ...(inLibrary ? { inLibrary } : {}),
+    ...(errors.length ? { error: errors.join("; ") } : {}),
+  };
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { LOW_CONFIDENCE, normalizeTokens, parseTitle, rankCandidates, scoreCandidate } from "@/lib/matching";
+
+describe("parseTitle", () => {
+  it.each([
+    ["Song (Extended Mix)", "Song", "Extended Mix"],
+    ["Song - Extended Mix", "Song", "Extended Mix"],
+    ["Song - Re-Edit", "Song", "Re-Edit"],
+    ["Song - Hi-Tech Remix", "Song", "Hi-Tech Remix"],
+    ["Hi-Fi - Radio Edit", "Hi-Fi", "Radio Edit"],
+    ["Song – Dub", "Song", "Dub"],
+    ["Song (Live) [Acoustic]", "Song", "Live Acoustic"],
+    ["Song (Original Mix)", "Song", null],
+    ["Song - Original", "Song", null],
+  ])("reads the version of %s", (raw, base, version) => {
+    expect(parseTitle(raw)).toMatchObject({ base, version });
+  });
+
+  it.each([
+    ["Song (feat. A & B)", ["A", "B"]],
+    ["Song [ft. A]", ["A"]],
+    ["Song (featuring A, B)", ["A", "B"]],
+    ["Song (with A)", ["A"]],
+    ["Song feat. A", ["A"]],
+    ["Song (feat. A) - Radio Edit", ["A"]],
+  ])("reads the featured artists of %s", (raw, featured) => {
+    expect(parseTitle(raw)).toMatchObject({ base: "Song", featured });
+  });
+
+  it.each([
+    ["Song - 2011 Remaster", "2011 Remaster"],
+    ["Song - Remastered 2009", "Remastered 2009"],
+    ["Song (Mono)", "Mono"],
+    ["Song [2015 Re-Master]", "2015 Re-Master"],
+  ])("reads the remaster tag of %s", (raw, remaster) => {
+    expect(parseTitle(raw)).toMatchObject({ base: "Song", remaster, version: null });
+  });
+
+  it.each([
+    ["(Sittin' On) The Dock of the Bay", "(Sittin' On) The Dock of the Bay"],
+    ["Song - Part Two", "Song - Part Two"],
+    ["Song - Part Two - Live", "Song - Part Two"],
+    ["Up-Tempo", "Up-Tempo"],
+    ["- Remix", "- Remix"],
+  ])("keeps %s as the base", (raw, base) => {
+    expect(parseTitle(raw).base).toBe(base);
+  });
+
+  it("keeps other bracketed notes as extras", () => {
+    expect(parseTitle('Song (From "Barbie")')).toMatchObject({ base: "Song", extras: ['From "Barbie"'] });
+  });
+});
+
+describe("normalizeTokens", () => {
+  it.each([
+    ["Beyoncé", ["beyonce"]],
+    ["Straße", ["strasse"]],
+    ["Simon & Garfunkel", ["simon", "and", "garfunkel"]],
+    ["Don't Stop", ["dont", "stop"]],
+    ["Re-Edit", ["re-edit"]],
+    ["夜に駆ける", ["夜", "に", "駆", "け", "る"]],
+    ["हिन्दी गाना", ["हिन्दी", "गाना"]],
+    ["เพลงที่ดี", ["เพลงที่ดี"]],
+    ["Привет, мир", ["привет", "мир"]],
+  ])("splits %s", (s, tokens) => {
+    expect(normalizeTokens(s)).toEqual(tokens);
+  });
+});
+
+describe("scoreCandidate", () => {
+  const target = { title: "Night Drive (Extended Mix)", artist: "Sunset Tapes", durationMs: 372_000 };
+  const candidate = (title: string, durationMs = target.durationMs) => ({ title, artist: "Sunset Tapes", durationMs });
+
+  it("trusts a shared ISRC over everything else", () => {
+    const isrc = "GBAYE0601498";
+    expect(scoreCandidate({ ...target, isrc }, { ...candidate("Something Else"), isrc: isrc.toLowerCase() })).toBe(1);
+  });
+
+  it("prefers the matching mix to the plain title and to other mixes", () => {
+    const ranked = rankCandidates(target, [
+      candidate("Night Drive (Dub Mix)"),
+      candidate("Night Drive"),
+      candidate("Night Drive - Extended Mix"),
+      candidate("Night Drive (Radio Edit)", 210_000),
+    ]);
+    expect(ranked.map((r) => r.candidate.title)).toEqual([
+      "Night Drive - Extended Mix",
+      "Night Drive",
+      "Night Drive (Dub Mix)",
+      "Night Drive (Radio Edit)",
+    ]);
+    expect(ranked[0].confidence).toBe(1);
+  });
+
+  it.each(["Night Drive (Dub Mix)", "Night Drive (Radio Edit)", "Night Drive (Karaoke Version)"])(
+    "flags %s against an Extended Mix even at the same length",
+    (title) => {
+      expect(scoreCandidate(target, candidate(title))).toBeLessThan(LOW_CONFIDENCE);
+    }
+  );
+
+  it("ignores remaster tags", () => {
+    expect(scoreCandidate(target, candidate("Night Drive (Extended Mix) - 2011 Remaster"))).toBe(1);
+  });
+
+  it("doesn't flag a store that leaves the version out", () => {
+    expect(scoreCandidate(target, candidate("Night Drive"))).toBeGreaterThanOrEqual(LOW_CONFIDENCE);
+  });
+});
@@ -0,0 +1,237 @@
+// ---------- Title cleanup & match scoring ----------
+
+// ---------- Title parsing ----------
+
+/** A track title taken apart: "Song (feat. X) [Extended Mix] - 2011 Remaster" */
+export type ParsedTitle = {
+  /** The song itself, without any of the below */
+  base: string;
+  /** Mix, edit or performance as written ("Extended Mix", "Bicep Remix", "Live at Wembley"); null for the original */
+  version: string | null;
+  /** Artists credited in the title with feat./ft./featuring/with */
+  featured: string[];
+  /** "2011 Remaster", "Mono": the same recording, so ignored when matching */
+  remaster: string | null;
+  /** Other trailing notes ("From 'Barbie'", "Pt. 2"), left out of searches like before */
+  extras: string[];
+};
+
+const FEAT = /^(?:feat\.?|ft\.?|featuring|with)\s+(.+)$/i;
+const INLINE_FEAT = /\s+[([]?(?:feat\.?|ft\.?|featuring)\s+(.+?)[)\]]?$/i;
+const REMASTER = /\b(?:re-?master(?:ed)?|mono|stereo|deluxe|anniversary|bonus track|spatial|atmos)\b/i;
+const VERSION_WORDS = [
+  "mix", "remix", "rmx", "edit", "dub", "vip", "live", "acoustic", "instrumental", "version", "rework", "bootleg",
+  "demo", "extended", "radio", "club", "flip", "unplugged", "reprise", "sessions?", "a ?cappella", "acapella",
+  "remode", "cover", "orchestral",
+];
+const VERSION = new RegExp(`\\b(?:${VERSION_WORDS.join("|")})\\b`, "i");
+/** Beatport's name for "no particular version" */
+const ORIGINAL = /^original(?: mix| version)?$/i;
+
+const TRAILING_BRACKET = /\s*[([{]([^()[\]{}]*)[)\]}]\s*$/;
+/** The part after the last spaced dash; hyphens inside it ("Re-Edit", "Hi-Tech Remix") are part of the name */
+const TRAILING_DASH = /\s+[-–—]\s+((?:(?!\s[-–—]\s).)+)$/;
+
+function splitArtists(s: string) {
+  return s
+    .split(/\s*(?:,|&|\/|\s+x\s+)\s*/i)
+    .map((a) => a.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Peels bracketed and " - " suffixes off the end of a title and sorts them
+ * into version, featured artists, remaster tag or other notes. Brackets at
+ * the start or in the middle ("(Sittin' On) The Dock of the Bay") stay in
+ * the base, and so does a " - " suffix that isn't a version or remaster.
+ */
+export function parseTitle(raw: string): ParsedTitle {
+  const parsed: ParsedTitle = { base: raw.trim(), version: null, featured: [], remaster: null, extras: [] };
+  const versions: string[] = [];
+
+  for (;;) {
+    const bracket = parsed.base.match(TRAILING_BRACKET);
+    const dash = bracket ? null : parsed.base.match(TRAILING_DASH);
+    const m = bracket ?? dash;
+    if (!m || !m.index) break;
+    const part = m[1].trim();
+    const feat = part.match(FEAT);
+    if (feat) parsed.featured.unshift(...splitArtists(feat[1]));
+    else if (ORIGINAL.test(part)) {
+      // The original is no version at all
+    } else if (REMASTER.test(part)) parsed.remaster = parsed.remaster ?? part;
+    else if (VERSION.test(part)) versions.unshift(part);
+    else if (bracket) parsed.extras.unshift(part);
+    else break;
+    parsed.base = parsed.base.slice(0, m.index).trim();
+  }
+
+  const inline = parsed.base.match(INLINE_FEAT);
+  if (inline?.index) {
+    parsed.featured.unshift(...splitArtists(inline[1]));
+    parsed.base = parsed.base.slice(0, inline.index).trim();
+  }
+  parsed.version = versions.length ? versions.join(" ") : null;
+  return parsed;
+}
+
+/** A version's distinguishing words: "Extended Mix" and "Extended Version" are both ["extended"] */
+export function versionTokens(version: string | null) {
+  return version ? normalizeTokens(version).filter((t) => t !== "mix" && t !== "version" && t !== "the") : [];
+}
+
+/** The base title: what to type into a store's search box */
+export function cleanTrackTitleForSearch(raw: string) {
+  return parseTitle(raw).base;
+}
+
+// ---------- Tokens ----------
+
+/** Letters without a decomposition that people still type unaccented */
+const FOLDED: Record<string, string> = { ß: "ss", æ: "ae", œ: "oe", ø: "o", đ: "d", ł: "l", þ: "th", ı: "i" };
+/** Scripts written without spaces; compared character by character */
+const UNSPACED = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+
+/**
+ * Lowercase words for comparing titles and artists: Latin accents dropped
+ * ("Beyoncé" = "beyonce"), other scripts kept as they are (vowel signs and
+ * viramas included), "&" read as "and".
+ */
+export function normalizeTokens(s: string) {
+  return s
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/[ßæœøđłþı]/g, (ch) => FOLDED[ch])
+    .replace(/[\u2018\u2019']/g, "")
+    .replace(/\s&\s/g, " and ")
+    .replace(UNSPACED, " $& ")
+    .replace(/[^\p{L}\p{M}\p{N}\s-]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// ---------- Scoring ----------
+
+/** What we know about the Spotify side */
+export type MatchTarget = {
+  title: string;
+  artist: string;
+  album?: string;
+  durationMs?: number;
+  isrc?: string;
+};
+
+/** What a store returned */
+export type MatchCandidate = {
+  title: string;
+  artist: string;
+  album?: string | null;
+  durationMs?: number;
+  isrc?: string;
+};
+
+/** Below this the row is flagged in the UI */
+export const LOW_CONFIDENCE = 0.6;
+/** Below this we don't link the candidate at all, only offer it as an alternate */
+export const MIN_CONFIDENCE = 0.3;
+
+// Heavy penalties: almost never the record you want
+const IMPOSTOR_WORDS = /\b(karaoke|tribute|in the style of|originally performed|made famous|backing track|cover version)\b/i;
+
+/** Sørensen–Dice over token sets, 0..1 */
+function dice(a: string[], b: string[]) {
+  if (!a.length || !b.length) return 0;
+  const bs = new Set(b);
+  let shared = 0;
+  for (const tok of new Set(a)) if (bs.has(tok)) shared++;
+  return (2 * shared) / (new Set(a).size + bs.size);
+}
+
+/** Share of `needle` tokens that appear in `hay`, 0..1 */
+function containment(needle: string[], hay: string[]) {
+  if (!needle.length) return 0;
+  const hs = new Set(hay);
+  return needle.filter((t) => hs.has(t)).length / needle.length;
+}
+
+function titleSimilarity(target: ParsedTitle, candidate: ParsedTitle) {
+  const a = normalizeTokens(target.base);
+  const b = normalizeTokens(candidate.base);
+  return Math.max(dice(a, b), 0.9 * containment(a, b));
+}
+
+/** Featured artists count whether they're credited as artists or only named in the title */
+function artistSimilarity(target: string, candidate: string, targetTitle: ParsedTitle, candidateTitle: ParsedTitle) {
+  const main = normalizeTokens(target.split(",")[0]);
+  const all = normalizeTokens([target, ...targetTitle.featured].join(" "));
+  const cand = normalizeTokens([candidate, ...candidateTitle.featured].join(" "));
+  return Math.max(dice(all, cand), containment(main, cand));
+}
+
+/** 1 within ±2s, sliding to 0 at ±30s; null when either side is unknown */
+function durationSimilarity(a?: number, b?: number) {
+  if (!a || !b) return null;
+  const diff = Math.abs(a - b) / 1000;
+  if (diff <= 2) return 1;
+  if (diff >= 30) return 0;
+  return 1 - (diff - 2) / 28;
+}
+
+/**
+ * Taken off a karaoke copy or an entirely different mix: enough that a
+ * perfect title, artist and length still ends up under LOW_CONFIDENCE.
+ */
+const WRONG_RECORDING_PENALTY = 0.45;
+
+/**
+ * The version Spotify names is a requirement: an "Extended Mix" target
+ * prefers the store's Extended Mix over the plain title, and over any other
+ * mix most of all. Remaster tags don't count; they're the same recording.
+ */
+function versionPenalty(
+  target: MatchTarget,
+  c: MatchCandidate,
+  targetTitle: ParsedTitle,
+  candidateTitle: ParsedTitle
+) {
+  const haystack = `${c.title} ${c.album ?? ""} ${c.artist}`;
+  if (IMPOSTOR_WORDS.test(haystack) && !IMPOSTOR_WORDS.test(target.title)) return WRONG_RECORDING_PENALTY;
+  const want = versionTokens(targetTitle.version);
+  const got = versionTokens(candidateTitle.version);
+  if (!want.length && !got.length) return 0;
+  // Stores sometimes leave the version out of the title; a different one is worse
+  if (!got.length) return 0.25;
+  if (!want.length) return 0.2;
+  return Math.round(WRONG_RECORDING_PENALTY * (1 - dice(want, got)) * 100) / 100;
+}
+
+/**
+ * Confidence in 0..1 that `c` is the same recording as `target`.
+ * A shared ISRC settles it; otherwise title, artist and duration are
+ * blended and version mismatches (another mix, live, karaoke...) subtract.
+ */
+export function scoreCandidate(target: MatchTarget, c: MatchCandidate) {
+  if (target.isrc && c.isrc && target.isrc.toUpperCase() === c.isrc.toUpperCase()) return 1;
+
+  const targetTitle = parseTitle(target.title);
+  const candidateTitle = parseTitle(c.title);
+  const title = titleSimilarity(targetTitle, candidateTitle);
+  const artist = artistSimilarity(target.artist, c.artist, targetTitle, candidateTitle);
+  const duration = durationSimilarity(target.durationMs, c.durationMs);
+
+  let score =
+    duration === null
+      ? title * 0.55 + artist * 0.45
+      : title * 0.45 + artist * 0.35 + duration * 0.2;
+  score -= versionPenalty(target, c, targetTitle, candidateTitle);
+  return Math.round(Math.max(0, Math.min(1, score)) * 100) / 100;
+}
+
+/** Scores every candidate and returns them best-first */
+export function rankCandidates<C extends MatchCandidate>(target: MatchTarget, candidates: C[]) {
+  return candidates
+    .map((c) => ({ candidate: c, confidence: scoreCandidate(target, c) }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
@@ -0,0 +1,41 @@
+import { readdirSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { openApiDocument } from "@/lib/openapi";
+import { V1_ROUTES } from "@/lib/v1";
+
+const V1 = new URL("../app/api/v1/", import.meta.url);
+const METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+/** Served without a key and not part of the API it describes */
+const UNDOCUMENTED = ["/openapi.json"];
+
+/** "/match" for app/api/v1/match/route.ts */
+function routePaths() {
+  return readdirSync(V1, { recursive: true, encoding: "utf8" })
+    .filter((f) => /(^|[\\/])route\.ts$/.test(f))
+    .map((f) => `/${f.replace(/[\\/]?route\.ts$/, "").replace(/\\/g, "/")}`)
+    .filter((p) => !UNDOCUMENTED.includes(p))
+    .sort();
+}
+
+describe("openApiDocument", () => {
+  const spec = openApiDocument("https://example.com");
+
+  it("has a path for every /api/v1 route and no others", () => {
+    expect(Object.keys(spec.paths).sort()).toEqual(routePaths());
+  });
+
+  it.each(routePaths())("documents the methods %s answers", async (path) => {
+    const route: Record<string, unknown> = await import(new URL(`.${path}/route.ts`, V1).href);
+    const handled = METHODS.filter((m) => typeof route[m] === "function").map((m) => m.toLowerCase());
+    expect(Object.keys(spec.paths[path]).sort()).toEqual(handled.sort());
+  });
+
+  it("takes each route's parameters and page size from V1_ROUTES", () => {
+    const exportFile = spec.paths[V1_ROUTES.export.path].post;
+    expect(exportFile.parameters).toEqual([expect.objectContaining({ name: "format", required: true })]);
+    expect(exportFile.parameters?.[0].schema).toMatchObject({ enum: V1_ROUTES.export.query[0].values });
+    const tracks = spec.paths[V1_ROUTES.tracks.path].get;
+    expect(tracks.parameters?.map((p) => p.name)).toEqual(["link", "country", "offset", "limit"]);
+    expect(tracks.parameters?.at(-1)?.schema).toMatchObject({ maximum: V1_ROUTES.tracks.page.maxLimit });
+  });
+});
@@ -0,0 +1,265 @@
+// ---------- OpenAPI document for /api/v1 ----------
+// Paths are generated from V1_ROUTES, the table the route handlers are built
+// from, so parameters, page limits, formats and error codes follow the
+// routes. The response and request schemas are described here;
+// lib/openapi.test.ts checks the table against app/api/v1.
+
+import { ERROR_STATUS, MAX_COUNTRIES, SKIP_REASON_LABELS, type ErrorCode, type PageLimits } from "@/lib/api";
+import { DEFAULT_PROVIDER_IDS, PROVIDER_META } from "@/lib/providers/meta";
+import { V1_ROUTES, type V1Param, type V1Route } from "@/lib/v1";
+
+type Schema = Record<string, unknown>;
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const nullable = (schema: Schema) => ({ anyOf: [schema, { type: "null" }] });
+const str = { type: "string" };
+const num = { type: "number" };
+const int = { type: "integer" };
+const STATUSES = ["matched", "no_match", "failed", "unchecked"];
+
+const schemas: Record<string, Schema> = {
+  Error: {
+    type: "object",
+    required: ["error", "code"],
+    properties: { error: str, code: { type: "string", enum: Object.keys(ERROR_STATUS) } },
+  },
+  Source: {
+    type: "object",
+    required: ["kind", "id", "name"],
+    properties: { kind: { type: "string", enum: ["playlist", "album", "track", "artist"] }, id: str, name: str },
+  },
+  Track: {
+    type: "object",
+    required: ["id", "addedAt", "title", "artist"],
+    properties: {
+      id: nullable(str),
+      addedAt: nullable({ type: "string", format: "date-time" }),
+      title: str,
+      artist: str,
+      album: str,
+      durationMs: int,
+      releaseDate: str,
+      isrc: str,
+      local: { type: "boolean", description: "A local file, matched on its title and artist tags only" },
+    },
+  },
+  SkippedItem: {
+    type: "object",
+    required: ["position", "title", "artist", "reason"],
+    properties: {
+      position: { type: "integer", description: "0-based position in the source" },
+      title: nullable(str),
+      artist: nullable(str),
+      reason: { type: "string", enum: Object.keys(SKIP_REASON_LABELS) },
+    },
+  },
+  TrackInput: {
+    type: "object",
+    required: ["title", "artist"],
+    properties: { title: str, artist: str, album: str, durationMs: int, isrc: str },
+  },
+  Provider: {
+    type: "object",
+    required: ["id", "label", "perCountry"],
+    properties: { id: str, label: str, perCountry: { type: "boolean" } },
+  },
+  StoreMatch: {
+    type: "object",
+    properties: {
+      id: nullable(str),
+      albumId: nullable(str),
+      title: str,
+      artist: str,
+      album: nullable(str),
+      url: nullable(str),
+      appLinks: { type: "array", items: str },
+      price: nullable(num),
+      currency: nullable(str),
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+    },
+  },
+  StoreOutcome: {
+    type: "object",
+    required: ["status", "match", "strategy", "alternates", "searchUrl"],
+    properties: {
+      status: { type: "string", enum: STATUSES },
+      match: nullable(ref("StoreMatch")),
+      strategy: nullable(str),
+      alternates: { type: "array", items: ref("StoreMatch") },
+      searchUrl: str,
+      storefronts: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            country: str,
+            status: { type: "string", enum: STATUSES },
+            price: nullable(num),
+            currency: nullable(str),
+            url: nullable(str),
+          },
+        },
+      },
+    },
+  },
+  TrackResult: {
+    allOf: [
+      ref("Track"),
+      {
+        type: "object",
+        required: ["stores"],
+        properties: {
+          stores: { type: "object", additionalProperties: ref("StoreOutcome") },
+          error: str,
+        },
+      },
+    ],
+  },
+  MatchRequest: {
+    type: "object",
+    description: "Either `link` or `tracks`",
+    properties: {
+      link: { type: "string", description: "Spotify playlist, album, track or artist link" },
+      tracks: { type: "array", items: ref("TrackInput") },
+      countries: {
+        type: "array",
+        items: { type: "string", pattern: "^[A-Za-z]{2}$" },
+        maxItems: MAX_COUNTRIES,
+        description: "Storefronts to compare; the first is the one matches link to. Default US",
+      },
+      providers: {
+        type: "array",
+        items: { type: "string", enum: Object.keys(PROVIDER_META) },
+        description: `Default ${DEFAULT_PROVIDER_IDS.join(", ")}`,
+      },
+      offset: { type: "integer", minimum: 0, default: 0 },
+      limit: { type: "integer", minimum: 1 },
+      refresh: { type: "boolean", default: false, description: "Skip cached store lookups" },
+    },
+  },
+  // ---------- Answers ----------
+  Resolved: {
+    type: "object",
+    properties: { source: ref("Source"), total: int, skipped: { type: "array", items: ref("SkippedItem") } },
+  },
+  TrackPage: paginated(ref("Track"), { source: ref("Source") }),
+  MatchPage: paginated(ref("TrackResult"), {
+    source: nullable(ref("Source")),
+    countries: { type: "array", items: str },
+    providers: { type: "array", items: ref("Provider") },
+  }),
+};
+
+/** offset/limit/total/nextOffset around `items` */
+function paginated(items: Schema, extra: Record<string, Schema> = {}) {
+  return {
+    type: "object",
+    required: ["items", "total", "offset", "limit", "nextOffset"],
+    properties: {
+      ...extra,
+      items: { type: "array", items },
+      total: int,
+      offset: int,
+      limit: int,
+      nextOffset: { ...nullable(int), description: "Pass as `offset` for the next page; null on the last one" },
+    },
+  };
+}
+
+function errors(codes: ErrorCode[]) {
+  const byStatus = new Map<number, ErrorCode[]>();
+  for (const code of [...codes, "UNAUTHORIZED", "RATE_LIMITED", "INTERNAL"] as ErrorCode[]) {
+    byStatus.set(ERROR_STATUS[code], [...(byStatus.get(ERROR_STATUS[code]) ?? []), code]);
+  }
+  return Object.fromEntries(
+    [...byStatus].map(([status, list]) => [
+      String(status),
+      { description: list.join(", "), content: { "application/json": { schema: ref("Error") } } },
+    ])
+  );
+}
+
+function queryParam({ name, description, required, values, default: fallback }: V1Param) {
+  return {
+    name,
+    in: "query",
+    ...(required ? { required } : {}),
+    schema: { ...str, ...(values ? { enum: values } : {}), ...(fallback ? { default: fallback } : {}) },
+    description,
+  };
+}
+
+const pageParams = (limits: PageLimits) => [
+  { name: "offset", in: "query", schema: { type: "integer", minimum: 0, default: 0 } },
+  {
+    name: "limit",
+    in: "query",
+    schema: { type: "integer", minimum: 1, maximum: limits.maxLimit, default: limits.defaultLimit },
+  },
+];
+
+const json = (schema: Schema) => ({ content: { "application/json": { schema } } });
+
+/** The match request, with the route's own page size */
+const matchBody = (limits: PageLimits) => ({
+  required: true,
+  ...json({
+    allOf: [
+      ref("MatchRequest"),
+      { properties: { limit: { type: "integer", maximum: limits.maxLimit, default: limits.defaultLimit } } },
+    ],
+  }),
+});
+
+function operation(route: V1Route) {
+  const { summary, query, page, response } = route;
+  const get = route.method === "GET";
+  const parameters = [...query.map(queryParam), ...(get && page ? pageParams(page) : [])];
+  return {
+    summary,
+    ...(parameters.length ? { parameters } : {}),
+    ...(!get && page ? { requestBody: matchBody(page) } : {}),
+    responses: {
+      "200": {
+        description: response.description,
+        ...("schema" in response
+          ? json(ref(response.schema))
+          : { content: Object.fromEntries(response.contentTypes.map((t) => [t, {}])) }),
+      },
+      ...errors(route.errors),
+    },
+  };
+}
+
+/** Routes by path, then lower-case method */
+function paths() {
+  const out: Record<string, Record<string, ReturnType<typeof operation>>> = {};
+  for (const route of Object.values(V1_ROUTES) as V1Route[]) {
+    out[route.path] = { ...out[route.path], [route.method.toLowerCase()]: operation(route) };
+  }
+  return out;
+}
+
+export function openApiDocument(origin: string) {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "speebee",
+      version: "1",
+      description:
+        "Find where Spotify tracks can be bought. Send an API key as `Authorization: Bearer <key>` or `X-API-Key`; " +
+        "every response carries X-RateLimit-Limit, X-RateLimit-Remaining and X-RateLimit-Reset, " +
+        "and a 429 also Retry-After.",
+    },
+    servers: [{ url: `${origin}/api/v1` }],
+    security: [{ bearer: [] }, { apiKey: [] }],
+    components: {
+      securitySchemes: {
+        bearer: { type: "http", scheme: "bearer" },
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas,
+    },
+    paths: paths(),
+  };
+}
@@ -0,0 +1,34 @@
+// ---------- Server-side match overrides ----------
+// One set for the whole server: a fix made by anyone applies to every later
+// run. Always on disk, like shares, since losing hand-made fixes on a
+// restart would mean making them again.
+
+import { createFileStore, type CacheStore } from "@/lib/cache";
+import { EMPTY_OVERRIDES, type OverrideSet } from "@/lib/overrides";
+
+// Effectively forever; the cache stores just need an expiry
+const KEEP_MS = 10 * 365 * 24 * 60 * 60 * 1000;
+
+const store: CacheStore = createFileStore(process.env.OVERRIDE_FILE || ".cache/overrides.json");
+
+export async function loadOverrides(): Promise<OverrideSet> {
+  const entry = await store.get("overrides");
+  return (entry?.value as OverrideSet | undefined) ?? EMPTY_OVERRIDES;
+}
+
+async function storeOverrides(set: OverrideSet) {
+  await store.set("overrides", { value: set, expiresAt: Date.now() + KEEP_MS });
+}
+
+/** Read, change and write back, one change at a time so concurrent edits don't undo each other */
+let queue: Promise<unknown> = Promise.resolve();
+
+export function updateOverrides(change: (set: OverrideSet) => OverrideSet): Promise<OverrideSet> {
+  const next = queue.then(async () => {
+    const updated = change(await loadOverrides());
+    await storeOverrides(updated);
+    return updated;
+  });
+  queue = next.catch(() => {});
+  return next;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { overrideUrlError, parseOverrides } from "@/lib/overrides";
+
+const override = (providerId: string, url: string | null) => ({
+  providerId,
+  trackId: "4uLU6hMCjMI75M1A2tKUQC",
+  isrc: null,
+  title: "Song",
+  artist: "Artist",
+  url,
+  savedAt: 1,
+});
+
+describe("overrideUrlError", () => {
+  it.each([
+    ["apple", "https://music.apple.com/gb/album/x/1?i=2"],
+    ["bandcamp", "https://artist.bandcamp.com/track/song"],
+    ["beatport", "https://www.beatport.com/track/x/1"],
+  ])("accepts a %s link on its site", (providerId, url) => {
+    expect(overrideUrlError(providerId, url)).toBeNull();
+  });
+
+  it.each([
+    ["bandcamp", "https://evil.example/track/song"],
+    ["bandcamp", "https://bandcamp.com.evil.example/"],
+    ["apple", "https://apple.com.evil.example/"],
+    ["apple", "javascript:alert(1)"],
+    ["nope", "https://artist.bandcamp.com/track/song"],
+    ["toString", "https://artist.bandcamp.com/track/song"],
+  ])("refuses %s → %s", (providerId, url) => {
+    expect(overrideUrlError(providerId, url)).not.toBeNull();
+  });
+});
+
+describe("parseOverrides", () => {
+  it("keeps usable entries and drops links off the store's site", () => {
+    const set = parseOverrides({
+      overrides: [override("bandcamp", "https://a.bandcamp.com/track/x"), override("bandcamp", "https://a.example/")],
+    });
+    expect(set.overrides.map((o) => o.url)).toEqual(["https://a.bandcamp.com/track/x"]);
+  });
+
+  it("rejects imports naming a store this server doesn't have", () => {
+    expect(() => parseOverrides({ overrides: [override("spotify", null)] })).toThrow('Unknown store "spotify"');
+    expect(() => parseOverrides({ overrides: [override("__proto__", null)] })).toThrow("Unknown store");
+  });
+
+  it("rejects anything that isn't an export", () => {
+    expect(() => parseOverrides({ nope: [] })).toThrow("Not an overrides export");
+  });
+});
@@ -0,0 +1,156 @@
+// ---------- Manual match overrides ----------
+// A store link (or "no match") someone picked by hand for a track, used
+// instead of searching on every later run. Keyed by Spotify track ID and
+// ISRC, so the fix follows the recording into other playlists and albums.
+
+import type { StoreOutcome } from "@/lib/api";
+import { PROVIDER_META } from "@/lib/providers/meta";
+
+export type MatchOverride = {
+  providerId: string;
+  /** Spotify track ID */
+  trackId: string | null;
+  isrc: string | null;
+  /** For the admin view; not used for matching */
+  title: string;
+  artist: string;
+  /** The right store page, or null for "this store doesn't have it" */
+  url: string | null;
+  /** ms since epoch */
+  savedAt: number;
+};
+
+export type OverrideSet = { version: 1; overrides: MatchOverride[] };
+
+export const EMPTY_OVERRIDES: OverrideSet = { version: 1, overrides: [] };
+
+type TrackLike = { id?: string | null; title: string; artist: string; isrc?: string | null; album?: string };
+
+function keysOf(providerId: string, { id, isrc }: { id?: string | null; isrc?: string | null }) {
+  const keys: string[] = [];
+  if (id) keys.push(`${providerId}|id:${id}`);
+  if (isrc) keys.push(`${providerId}|isrc:${isrc.toUpperCase()}`);
+  return keys;
+}
+
+const keysOfOverride = (o: MatchOverride) => keysOf(o.providerId, { id: o.trackId, isrc: o.isrc });
+
+/** Lookup by provider + track ID or ISRC; the most recent override wins when both match different ones */
+export function indexOverrides(set: OverrideSet) {
+  const byKey = new Map<string, MatchOverride>();
+  for (const o of [...set.overrides].sort((a, b) => a.savedAt - b.savedAt)) {
+    for (const key of keysOfOverride(o)) byKey.set(key, o);
+  }
+  return {
+    find(providerId: string, track: TrackLike): MatchOverride | null {
+      const hits = keysOf(providerId, track).flatMap((k) => byKey.get(k) ?? []);
+      return hits.sort((a, b) => b.savedAt - a.savedAt)[0] ?? null;
+    },
+  };
+}
+
+export type OverrideIndex = ReturnType<typeof indexOverrides>;
+
+/** Hosts a pasted link has to be on; artists' own domains are reached through their bandcamp.com address */
+const STORE_HOSTS: Record<string, RegExp> = {
+  apple: /(^|\.)(music|itunes)\.apple\.com$/i,
+  bandcamp: /(^|\.)bandcamp\.com$/i,
+  beatport: /(^|\.)beatport\.com$/i,
+  qobuz: /(^|\.)qobuz\.com$/i,
+  sevendigital: /(^|\.)7digital\.com$/i,
+};
+
+/** Why `url` can't be a store link for `providerId`, or null when it's fine */
+export function overrideUrlError(providerId: string, url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Not a valid link";
+  }
+  if (!/^https?:$/.test(parsed.protocol)) return "Links must start with http:// or https://";
+  const hosts = Object.hasOwn(STORE_HOSTS, providerId) ? STORE_HOSTS[providerId] : null;
+  if (!hosts) return "Not a store we link to";
+  if (!hosts.test(parsed.hostname)) return `${parsed.hostname} isn't this store's site`;
+  return null;
+}
+
+/** Replaces any override of the same track on the same store */
+export function setOverride(set: OverrideSet, override: MatchOverride): OverrideSet {
+  const rest = removeOverride(set, override);
+  return { version: 1, overrides: [...rest.overrides, override] };
+}
+
+/** Drops every override sharing a track ID or ISRC with `target` on its store */
+export function removeOverride(set: OverrideSet, target: Pick<MatchOverride, "providerId" | "trackId" | "isrc">) {
+  const keys = new Set(keysOf(target.providerId, { id: target.trackId, isrc: target.isrc }));
+  const overrides = set.overrides.filter((o) => !keysOfOverride(o).some((k) => keys.has(k)));
+  return { version: 1 as const, overrides };
+}
+
+/** Everything from both; where they disagree about a track, the later override wins */
+export function mergeOverrides(a: OverrideSet, b: OverrideSet): OverrideSet {
+  return [...a.overrides, ...b.overrides].sort((x, y) => x.savedAt - y.savedAt).reduce(setOverride, EMPTY_OVERRIDES);
+}
+
+const isProviderId = (id: unknown): id is string => typeof id === "string" && Object.hasOwn(PROVIDER_META, id);
+
+export function parseOverride(v: unknown): MatchOverride | null {
+  const o = v as Partial<MatchOverride> | null;
+  if (!o || !isProviderId(o.providerId)) return null;
+  const trackId = typeof o.trackId === "string" && o.trackId ? o.trackId : null;
+  const isrc = typeof o.isrc === "string" && o.isrc ? o.isrc.toUpperCase() : null;
+  if (!trackId && !isrc) return null;
+  const url = typeof o.url === "string" && o.url ? o.url : null;
+  if (url && overrideUrlError(o.providerId, url)) return null;
+  return {
+    providerId: o.providerId,
+    trackId,
+    isrc,
+    title: typeof o.title === "string" ? o.title : "",
+    artist: typeof o.artist === "string" ? o.artist : "",
+    url,
+    savedAt: typeof o.savedAt === "number" ? o.savedAt : Date.now(),
+  };
+}
+
+/**
+ * Check an imported set, dropping entries without a track or with a link off
+ * the store's site. Throws when it isn't an overrides export or names a
+ * store this server doesn't have.
+ */
+export function parseOverrides(data: unknown): OverrideSet {
+  const overrides = (data as { overrides?: unknown })?.overrides;
+  if (!Array.isArray(overrides)) throw new Error("Not an overrides export");
+  const unknown = overrides.find((o) => !isProviderId((o as Partial<MatchOverride> | null)?.providerId));
+  if (unknown !== undefined) {
+    throw new Error(`Unknown store "${String((unknown as Partial<MatchOverride> | null)?.providerId)}" in the import`);
+  }
+  return {
+    version: 1,
+    overrides: overrides.map(parseOverride).filter((o): o is MatchOverride => !!o),
+  };
+}
+
+/** What a store shows for a track with an override; replaces the search result entirely */
+export function overrideOutcome(url: string | null, track: TrackLike, searchUrl: string): StoreOutcome {
+  if (!url) return { status: "no_match", match: null, strategy: "override", alternates: [], searchUrl };
+  return {
+    status: "matched",
+    match: {
+      id: null,
+      albumId: null,
+      title: track.title,
+      artist: track.artist,
+      album: track.album ?? null,
+      url,
+      appLinks: [],
+      price: null,
+      currency: null,
+      confidence: 1,
+    },
+    strategy: "override",
+    alternates: [],
+    searchUrl,
+  };
+}
@@ -0,0 +1,47 @@
+// ---------- Price comparison ----------
+
+/**
+ * Rough USD value of one unit of each storefront currency. Only used to
+ * rank stores against each other; amounts are always shown in the store's
+ * own currency, so a stale rate can at worst pick the wrong "cheapest".
+ */
+const APPROX_USD_RATE: Record<string, number> = {
+  USD: 1,
+  GBP: 1.27,
+  EUR: 1.08,
+  CAD: 0.73,
+  AUD: 0.66,
+  SEK: 0.095,
+  JPY: 0.0067,
+  BRL: 0.18,
+};
+
+export type Offer = { country: string; price: number | null; currency: string | null };
+
+export function approxUsd(price: number, currency: string) {
+  const rate = APPROX_USD_RATE[currency.toUpperCase()];
+  return rate == null ? null : price * rate;
+}
+
+/** Cheapest priced offer, or null when none can be compared */
+export function cheapestOffer<O extends Offer>(offers: O[]): O | null {
+  let best: O | null = null;
+  let bestUsd = Infinity;
+  for (const o of offers) {
+    if (o.price == null || !o.currency) continue;
+    const usd = approxUsd(o.price, o.currency);
+    if (usd != null && usd < bestUsd) {
+      best = o;
+      bestUsd = usd;
+    }
+  }
+  return best;
+}
+
+export function formatPrice(price: number, currency: string) {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(price);
+  } catch {
+    return `${price.toFixed(2)} ${currency}`;
+  }
+}
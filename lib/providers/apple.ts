@@ -0,0 +1,182 @@
+// ---------- Apple / iTunes ----------
+import type { AlbumOffer } from "@/lib/api";
+import type { AppleTrackLinks } from "@/lib/apple-links";
+import { createCache, createMemoryStore } from "@/lib/cache";
+import { cleanTrackTitleForSearch, scoreCandidate, type MatchTarget } from "@/lib/matching";
+import { LookupError } from "@/lib/scheduler";
+import { fetchOk, pickMatch, scheduler } from "./shared";
+import { PROVIDER_META } from "./meta";
+import type { StoreProvider } from "./types";
+
+// Overridable so the lookups can be pointed at a local fake server
+const ITUNES_SEARCH = process.env.ITUNES_SEARCH_URL || "https://itunes.apple.com/search";
+const ITUNES_LOOKUP = process.env.ITUNES_LOOKUP_URL || "https://itunes.apple.com/lookup";
+
+type ITunesResult = {
+  wrapperType?: string;
+  collectionType?: string;
+  kind?: string;
+  trackId?: number;
+  collectionId?: number;
+  trackName?: string;
+  artistName?: string;
+  collectionName?: string;
+  trackTimeMillis?: number;
+  trackViewUrl?: string;
+  collectionViewUrl?: string;
+  trackPrice?: number;
+  collectionPrice?: number;
+  trackCount?: number;
+  currency?: string;
+};
+
+function buildITunesStoreCandidates(trackId?: number, collectionId?: number) {
+  const c: string[] = [];
+  if (trackId && collectionId) {
+    c.push(`itms://itunes.apple.com/WebObjects/MZStore.woa/wa/viewAlbum?i=${trackId}&id=${collectionId}&uo=4&app=itunes`);
+    c.push(`itms://itunes.apple.com/album/id${collectionId}?i=${trackId}&uo=4&app=itunes`);
+    c.push(`itms://itunes.apple.com/WebObjects/MZStore.woa/wa/viewSong?i=${trackId}&uo=4&app=itunes`);
+  } else if (collectionId) {
+    c.push(`itms://itunes.apple.com/album/id${collectionId}?uo=4&app=itunes`);
+  }
+  return c;
+}
+
+function toCandidate(r: ITunesResult, isrc?: string) {
+  return {
+    id: r.trackId != null ? String(r.trackId) : null,
+    albumId: r.collectionId != null ? String(r.collectionId) : null,
+    title: r.trackName ?? "",
+    artist: r.artistName ?? "",
+    album: r.collectionName ?? null,
+    url: r.trackViewUrl || r.collectionViewUrl || null,
+    appLinks: buildITunesStoreCandidates(r.trackId, r.collectionId),
+    // iTunes reports -1 for tracks that can only be bought with the album
+    price: r.trackPrice != null && r.trackPrice >= 0 ? r.trackPrice : null,
+    currency: r.currency ?? null,
+    durationMs: r.trackTimeMillis,
+    isrc,
+  };
+}
+
+/**
+ * Exact lookup by ISRC. Songs found this way are the same recording by
+ * definition, so they're tagged with the ISRC and score as certain.
+ */
+async function lookupByIsrc(isrc: string, country: string) {
+  const params = new URLSearchParams({ isrc, entity: "song", country });
+  const res = await scheduler.fetch("apple", `${ITUNES_LOOKUP}?${params.toString()}`, { cache: "no-store" });
+  // A bad ISRC comes back as 400; treat it like "not found" and fall back to text
+  if (res.status === 400 || res.status === 404) return [];
+  if (!res.ok) throw new LookupError(`apple: HTTP ${res.status}`, "apple", res.status);
+  const data: { results?: ITunesResult[] } = await res.json();
+  return (data.results ?? [])
+    .filter((r) => r.wrapperType === "track" && r.kind === "song")
+    .map((r) => toCandidate(r, isrc));
+}
+
+/** Base title and main artist; every credited artist in the term narrows the search to nothing */
+function searchTerm(target: MatchTarget) {
+  return `${cleanTrackTitleForSearch(target.title)} ${target.artist.split(",")[0]}`.trim();
+}
+
+async function searchByText(target: MatchTarget, country: string) {
+  const term = searchTerm(target);
+  const params = new URLSearchParams({ term, media: "music", entity: "song", limit: "15", country });
+  const res = await fetchOk("apple", `${ITUNES_SEARCH}?${params.toString()}`);
+  const data: { results?: ITunesResult[] } = await res.json();
+  return (data.results ?? []).map((r) => toCandidate(r));
+}
+
+const linkCache = createCache(createMemoryStore(5000), { ttlMs: 24 * 60 * 60 * 1000, negativeTtlMs: 60 * 60 * 1000 });
+
+async function lookupTrack(trackId: string, country: string) {
+  const params = new URLSearchParams({ id: trackId, country });
+  const res = await fetchOk("apple", `${ITUNES_LOOKUP}?${params.toString()}`);
+  const data: { results?: ITunesResult[] } = await res.json();
+  const r = data.results?.find((x) => String(x.trackId) === trackId);
+  if (!r?.trackViewUrl) return null;
+  return { collectionId: r.collectionId != null ? String(r.collectionId) : null, webUrl: r.trackViewUrl };
+}
+
+/**
+ * The storefront's own web page and album ID for a track, for /go/apple.
+ * Falls back to a song page built from the ID when the lookup has nothing
+ * or fails; the link should still go somewhere.
+ */
+export async function lookupTrackLinks(trackId: string, country: string): Promise<AppleTrackLinks> {
+  const webUrl = `https://music.apple.com/${country.toLowerCase()}/song/${trackId}`;
+  const fallback: AppleTrackLinks = { trackId, collectionId: null, webUrl, country };
+  const found = await linkCache
+    .wrap(`${country}:${trackId}`, () => lookupTrack(trackId, country), { isNegative: (v) => !v })
+    .catch(() => null);
+  return found ? { ...fallback, ...found } : fallback;
+}
+
+// Looked up in batches, so the store is used directly rather than through createCache's wrap
+const albumStore = createMemoryStore(2000);
+const ALBUM_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Lookup takes a comma-separated list of IDs; keep the URL a sane length */
+const ALBUM_BATCH = 100;
+
+async function lookupAlbumBatch(ids: string[], country: string) {
+  const params = new URLSearchParams({ id: ids.join(","), country });
+  const res = await fetchOk("apple", `${ITUNES_LOOKUP}?${params.toString()}`);
+  const data: { results?: ITunesResult[] } = await res.json();
+  const albums = new Map<string, AlbumOffer>();
+  for (const r of data.results ?? []) {
+    if (r.wrapperType !== "collection" || r.collectionId == null || !r.collectionViewUrl) continue;
+    albums.set(String(r.collectionId), {
+      title: r.collectionName ?? "",
+      artist: r.artistName ?? "",
+      url: r.collectionViewUrl,
+      // Like tracks, -1 means it can't be bought (pre-order, or streaming only)
+      price: r.collectionPrice != null && r.collectionPrice >= 0 ? r.collectionPrice : null,
+      currency: r.currency ?? null,
+      trackCount: r.trackCount ?? null,
+      trackPrice: null,
+    });
+  }
+  return albums;
+}
+
+/** Price and track count of iTunes albums by collection ID; IDs the storefront doesn't sell are left out */
+export async function lookupAlbums(collectionIds: string[], country: string) {
+  const found = new Map<string, AlbumOffer>();
+  const missing: string[] = [];
+  for (const id of new Set(collectionIds)) {
+    const cached = await albumStore.get(`${country}:${id}`);
+    if (cached && cached.expiresAt > Date.now()) found.set(id, cached.value as AlbumOffer);
+    else missing.push(id);
+  }
+  for (let i = 0; i < missing.length; i += ALBUM_BATCH) {
+    const batch = missing.slice(i, i + ALBUM_BATCH);
+    const albums = await lookupAlbumBatch(batch, country);
+    for (const [id, album] of albums) {
+      found.set(id, album);
+      await albumStore.set(`${country}:${id}`, { value: album, expiresAt: Date.now() + ALBUM_TTL_MS });
+    }
+  }
+  return found;
+}
+
+export const apple: StoreProvider = {
+  ...PROVIDER_META.apple,
+
+  searchUrl(target, country) {
+    return `https://music.apple.com/${country.toLowerCase()}/search?term=${encodeURIComponent(searchTerm(target))}`;
+  },
+
+  /** ISRC first when Spotify gave us one, text search otherwise or when that finds nothing */
+  async search(target, country) {
+    const searchUrl = apple.searchUrl(target, country);
+    if (target.isrc) {
+      const exact = await lookupByIsrc(target.isrc, country);
+      if (exact.length) return pickMatch(apple, target, exact, searchUrl, { strategy: "isrc" });
+    }
+    return pickMatch(apple, target, await searchByText(target, country), searchUrl, { strategy: "text" });
+  },
+
+  score: scoreCandidate,
+};
@@ -0,0 +1,205 @@
+import { readFileSync } from "node:fs";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { startFakeServer, type FakeServer } from "@/test/fake-server";
+
+// Pages saved from Bandcamp, trimmed to the parts we read
+const FIXTURES = new URL("../../test/fixtures/bandcamp/", import.meta.url);
+const fixture = (name: string) => readFileSync(new URL(name, FIXTURES), "utf8");
+
+const ARTIST_SITE = "https://sunsettapes.bandcamp.com";
+const RELEASE_PAGES: Record<string, string> = {
+  "/album/night-drive": "album.html",
+  "/track/coastline": "track.html",
+  "/track/heatwave": "single.html",
+};
+
+let store: FakeServer;
+let searches: URLSearchParams[] = [];
+/** What the track search answers next */
+let trackResults = "search-tracks.html";
+
+let bandcamp: typeof import("@/lib/providers/bandcamp");
+
+beforeAll(async () => {
+  store = await startFakeServer((req, res) => {
+    const url = new URL(req.url ?? "/", store.url);
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    if (url.pathname === "/search") {
+      searches.push(url.searchParams);
+      res.end(fixture(url.searchParams.get("item_type") === "a" ? "search-albums.html" : trackResults));
+      return;
+    }
+    res.statusCode = 404;
+    res.end();
+  });
+  vi.stubEnv("BANDCAMP_SEARCH_URL", `${store.url}/search`);
+  // The search URL is read when the module loads
+  vi.resetModules();
+  bandcamp = await import("@/lib/providers/bandcamp");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await store.close();
+});
+
+beforeEach(() => {
+  searches = [];
+  trackResults = "search-tracks.html";
+});
+
+describe("parseBandcampSearch", () => {
+  it("reads tracks and albums, skipping artists and pages off bandcamp.com", () => {
+    expect(bandcamp.parseBandcampSearch(fixture("search-tracks.html"))).toEqual([
+      {
+        type: "track",
+        title: "Night Drive",
+        artist: "Sunset Tapes",
+        album: "Night Drive",
+        subdomain: "palmhouserecords",
+        url: "https://palmhouserecords.bandcamp.com/track/night-drive",
+      },
+      {
+        type: "track",
+        title: "Rock & Roll Motel (Night Drive Dub)",
+        artist: "Sunset Tapes",
+        album: null,
+        subdomain: "sunsettapes",
+        url: "https://sunsettapes.bandcamp.com/track/rock-roll-motel",
+      },
+      {
+        type: "track",
+        title: "Night Drive (Radio Edit)",
+        artist: "late night radio",
+        album: "Late Night Radio Vol. 2",
+        subdomain: "late-night-radio",
+        url: "https://late-night-radio.bandcamp.com/track/night-drive-edit",
+      },
+    ]);
+  });
+
+  it("gives albums no album of their own", () => {
+    const albums = bandcamp.parseBandcampSearch(fixture("search-albums.html"));
+    expect(albums.map((a) => [a.type, a.title, a.artist, a.album])).toEqual([
+      ["album", "Night Drive", "Sunset Tapes", null],
+      ["album", "Late Night Radio Vol. 2", "Various Artists", null],
+    ]);
+  });
+
+  it("finds nothing on a page without results", () => {
+    expect(bandcamp.parseBandcampSearch(fixture("search-empty.html"))).toEqual([]);
+  });
+});
+
+describe("parseLinkedData", () => {
+  it("reads a release page's JSON-LD", () => {
+    expect(bandcamp.parseLinkedData(fixture("album.html"))).toMatchObject({
+      name: "Night Drive",
+      byArtist: { name: "Sunset Tapes" },
+      numTracks: 5,
+    });
+    expect(bandcamp.parseLinkedData(fixture("track.html"))?.inAlbum?.["@id"]).toBe(`${ARTIST_SITE}/album/night-drive`);
+  });
+
+  it.each([
+    ["no JSON-LD", "<html><head><title>Bandcamp</title></head></html>"],
+    ["broken JSON-LD", '<script type="application/ld+json">{"name":</script>'],
+  ])("gives null for a page with %s", (_, html) => {
+    expect(bandcamp.parseLinkedData(html)).toBeNull();
+  });
+});
+
+describe("bandcamp.search", () => {
+  it("links a convincing track without searching albums", async () => {
+    const result = await bandcamp.bandcamp.search({ title: "Night Drive", artist: "Sunset Tapes" }, "GB");
+    expect(result.strategy).toBe("track");
+    expect(result.match?.url).toBe("https://palmhouserecords.bandcamp.com/track/night-drive");
+    expect(searches.map((s) => s.get("item_type"))).toEqual(["t"]);
+  });
+
+  it("falls back to the album page when no track matches", async () => {
+    trackResults = "search-empty.html";
+    const target = { title: "Coastline", artist: "Sunset Tapes, Guest", album: "Night Drive" };
+    const result = await bandcamp.bandcamp.search(target, "GB");
+    expect(result.strategy).toBe("album");
+    expect(result.match?.url).toBe(`${ARTIST_SITE}/album/night-drive`);
+    expect(searches.map((s) => [s.get("item_type"), s.get("q")])).toEqual([
+      ["t", "Sunset Tapes, Guest Coastline"],
+      ["a", "Sunset Tapes Night Drive"],
+    ]);
+  });
+});
+
+describe("lookupRelease", () => {
+  const match = (url: string) => ({
+    id: null,
+    albumId: null,
+    title: "Coastline",
+    artist: "Sunset Tapes",
+    album: null,
+    url,
+    appLinks: [],
+    price: null,
+    currency: null,
+    confidence: 1,
+  });
+
+  /** Release pages only load from bandcamp.com, so they're answered without the fake server */
+  const servePages = (pages: Record<string, string>) => {
+    const fetch = vi.fn(async (url: string) => {
+      const page = pages[url];
+      return page ? new Response(page) : new Response(null, { status: 404 });
+    });
+    vi.stubGlobal("fetch", fetch);
+    return fetch;
+  };
+  const releasePages = () =>
+    Object.fromEntries(Object.entries(RELEASE_PAGES).map(([path, name]) => [ARTIST_SITE + path, fixture(name)]));
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("prices a track's album from the page it links to", async () => {
+    servePages(releasePages());
+    expect(await bandcamp.lookupRelease(match(`${ARTIST_SITE}/track/coastline`), false)).toEqual({
+      title: "Night Drive",
+      artist: "Sunset Tapes",
+      url: `${ARTIST_SITE}/album/night-drive`,
+      // The download, not the vinyl listed first
+      price: 7,
+      currency: "GBP",
+      trackCount: 5,
+      trackPrice: 1,
+    });
+  });
+
+  it("reads an album page directly", async () => {
+    servePages(releasePages());
+    const release = await bandcamp.lookupRelease(match(`${ARTIST_SITE}/album/night-drive`), true);
+    expect(release).toMatchObject({ url: `${ARTIST_SITE}/album/night-drive`, price: 7, trackPrice: null });
+  });
+
+  it("gives null for a single that isn't on an album", async () => {
+    servePages(releasePages());
+    expect(await bandcamp.lookupRelease(match(`${ARTIST_SITE}/track/heatwave`), false)).toBeNull();
+  });
+
+  it.each(["http://169.254.169.254/latest/meta-data", "https://example.com/album/night-drive", "not a url"])(
+    "doesn't follow a track page's album link to %s",
+    async (albumUrl) => {
+      const track = fixture("track.html").replaceAll(`${ARTIST_SITE}/album/night-drive`, albumUrl);
+      const fetch = servePages({ [`${ARTIST_SITE}/track/coastline`]: track });
+      expect(await bandcamp.lookupRelease(match(`${ARTIST_SITE}/track/coastline`), false)).toBeNull();
+      expect(fetch).toHaveBeenCalledTimes(1);
+    }
+  );
+
+  it("doesn't fetch a match outside bandcamp.com", async () => {
+    const fetch = servePages({});
+    await expect(bandcamp.lookupRelease(match(`${store.url}/album/night-drive`), true)).rejects.toMatchObject({
+      provider: "bandcamp",
+    });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,212 @@
+// ---------- Bandcamp ----------
+// Bandcamp has no public search API, so we read the search results page.
+// Each hit is an <li class="searchresult"> with the item type, a heading
+// (title), a subhead ("from <album> by <artist>") and the item URL, which
+// lives on the artist's *or label's* subdomain; scoring uses the text, not
+// the URL slug.
+import type { AlbumOffer } from "@/lib/api";
+import { cleanTrackTitleForSearch, scoreCandidate, type MatchTarget } from "@/lib/matching";
+import { decodeEntities } from "@/lib/xml";
+import { fetchOk, fetchOkWithin, isBandcampUrl, pickMatch } from "./shared";
+import { PROVIDER_META } from "./meta";
+import type { StoreMatch, StoreProvider } from "./types";
+
+const BANDCAMP_SEARCH = process.env.BANDCAMP_SEARCH_URL || "https://bandcamp.com/search";
+
+export type BandcampResult = {
+  type: "track" | "album";
+  title: string;
+  artist: string;
+  /** Album a track is from; null for albums and standalone tracks */
+  album: string | null;
+  /** Subdomain the item is sold from: the artist's or their label's */
+  subdomain: string;
+  url: string;
+};
+
+/** Text content of the first element with `className` inside `html` */
+function textOf(html: string, className: string) {
+  const m = html.match(new RegExp(`class="${className}"[^>]*>([\\s\\S]*?)</div>`, "i"));
+  if (!m) return "";
+  return decodeEntities(m[1].replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim();
+}
+
+/** Search result URLs carry ?from=search tracking; keep the bare item URL */
+function cleanItemUrl(raw: string) {
+  try {
+    const u = new URL(decodeEntities(raw));
+    return `${u.origin}${u.pathname}`;
+  } catch {
+    return null;
+  }
+}
+
+export function parseBandcampSearch(html: string): BandcampResult[] {
+  const results: BandcampResult[] = [];
+  const blocks = html.split(/<li[^>]+class="searchresult\b/i).slice(1);
+  for (const block of blocks) {
+    const type = textOf(block, "itemtype").toLowerCase();
+    if (type !== "track" && type !== "album") continue;
+
+    const href = block.match(/class="itemurl"[\s\S]*?href="([^"]+)"/i)?.[1] ?? block.match(/href="([^"]+)"/i)?.[1];
+    const url = href ? cleanItemUrl(href) : null;
+    const subdomain = url?.match(/^https?:\/\/([a-z0-9-]+)\.bandcamp\.com\//i)?.[1];
+    if (!url || !subdomain) continue;
+
+    // "from Album by Artist", "by Artist", or (rarely) just "from Album";
+    // the greedy album part means the *last* " by " splits them
+    const subhead = textOf(block, "subhead");
+    const parts = subhead.match(/^(?:from\s+(.*)\s+)?by\s+(.+)$/i);
+    const by = parts?.[2]?.trim() ?? "";
+    const from = parts ? parts[1]?.trim() || null : subhead.match(/^from\s+(.+)$/i)?.[1]?.trim() ?? null;
+
+    results.push({
+      type,
+      title: textOf(block, "heading"),
+      artist: by || subdomain.replace(/-/g, " "),
+      album: type === "track" ? from : null,
+      subdomain,
+      url,
+    });
+  }
+  return results;
+}
+
+function searchUrlFor(query: string, itemType: "t" | "a") {
+  return `${BANDCAMP_SEARCH}?q=${encodeURIComponent(query)}&item_type=${itemType}`;
+}
+
+async function fetchResults(url: string) {
+  // Throws LookupError when Bandcamp is unreachable or keeps throttling us
+  const res = await fetchOk("bandcamp", url, {
+    headers: { "User-Agent": "Mozilla/5.0", Accept: "text/html" },
+  });
+  return parseBandcampSearch(await res.text());
+}
+
+function toCandidate(r: BandcampResult) {
+  return {
+    id: null,
+    albumId: null,
+    title: r.title,
+    artist: r.artist,
+    album: r.album,
+    url: r.url,
+    appLinks: [],
+    price: null,
+    currency: null,
+  };
+}
+
+// ---------- Release pages ----------
+// Album and track pages describe themselves in JSON-LD: the album's track
+// count, the release formats on sale with their prices, and for a track the
+// album it's on.
+
+type Offer = { price?: number | string; priceCurrency?: string };
+type Release = { musicReleaseFormat?: string; offers?: Offer | Offer[] };
+type LinkedData = {
+  name?: string;
+  byArtist?: { name?: string };
+  numTracks?: number;
+  track?: { numberOfItems?: number };
+  inAlbum?: { "@id"?: string };
+  albumRelease?: Release[];
+  offers?: Offer | Offer[];
+};
+
+export function parseLinkedData(html: string): LinkedData | null {
+  const m = html.match(/<script[^>]+type="application\/ld\+json"[^>]*>([\s\S]*?)<\/script>/i);
+  if (!m) return null;
+  try {
+    return JSON.parse(m[1]) as LinkedData;
+  } catch {
+    return null;
+  }
+}
+
+/** The download's price; vinyl, CDs and merch are other releases of the same page */
+function digitalOffer(ld: LinkedData) {
+  const releases = ld.albumRelease ?? [];
+  const digital = releases.find((r) => /digital/i.test(r.musicReleaseFormat ?? "")) ?? releases[0];
+  const offers = digital?.offers ?? ld.offers;
+  const offer = Array.isArray(offers) ? offers[0] : offers;
+  const price = offer?.price != null ? Number(offer.price) : NaN;
+  return { price: Number.isFinite(price) ? price : null, currency: offer?.priceCurrency ?? null };
+}
+
+/** The addresses come from search results and other pages' JSON-LD, so only bandcamp.com is fetched */
+async function fetchLinkedData(url: string) {
+  const res = await fetchOkWithin("bandcamp", url, isBandcampUrl, {
+    headers: { "User-Agent": "Mozilla/5.0", Accept: "text/html" },
+  });
+  return parseLinkedData(await res.text());
+}
+
+/**
+ * The release a Bandcamp match is sold on: the album page itself, or for a
+ * track the album its page links to, with the track's own price. Null for
+ * singles that aren't on an album.
+ */
+export async function lookupRelease(match: StoreMatch, albumPage: boolean): Promise<AlbumOffer | null> {
+  if (!match.url) return null;
+  let albumUrl = match.url;
+  let trackPrice: number | null = null;
+  if (!albumPage) {
+    const track = await fetchLinkedData(match.url);
+    const inAlbum = track?.inAlbum?.["@id"];
+    if (!inAlbum || !URL.canParse(inAlbum) || !isBandcampUrl(new URL(inAlbum))) return null;
+    albumUrl = inAlbum;
+    trackPrice = digitalOffer(track).price;
+  }
+  const album = await fetchLinkedData(albumUrl);
+  if (!album) return null;
+  const { price, currency } = digitalOffer(album);
+  return {
+    title: album.name ?? match.album ?? match.title,
+    artist: album.byArtist?.name ?? match.artist,
+    url: albumUrl,
+    price,
+    currency,
+    trackCount: album.numTracks ?? album.track?.numberOfItems ?? null,
+    // Artists nearly always price every track alike, so one stands for all
+    trackPrice,
+  };
+}
+
+export const bandcamp: StoreProvider = {
+  ...PROVIDER_META.bandcamp,
+
+  searchUrl(target) {
+    return searchUrlFor(`${target.artist} ${cleanTrackTitleForSearch(target.title)}`.trim(), "t");
+  },
+
+  /**
+   * Track pages first. When none is convincing, look for the release on an
+   * album page instead: the Spotify album name if we have it, else the title
+   * (singles are often sold as one-track albums).
+   */
+  async search(target: MatchTarget) {
+    const searchUrl = bandcamp.searchUrl(target, "");
+    const tracks = (await fetchResults(searchUrl)).filter((r) => r.type === "track");
+    const byTrack = pickMatch(bandcamp, target, tracks.map(toCandidate), searchUrl, { strategy: "track" });
+    if (byTrack.match) return byTrack;
+
+    const albumName = target.album || cleanTrackTitleForSearch(target.title);
+    const artistMain = target.artist.split(",")[0];
+    const albums = (await fetchResults(searchUrlFor(`${artistMain} ${albumName}`, "a"))).filter(
+      (r) => r.type === "album"
+    );
+    const byAlbum = pickMatch(
+      bandcamp,
+      { title: albumName, artist: target.artist },
+      albums.map(toCandidate),
+      searchUrl,
+      { strategy: "album" }
+    );
+    // Keep the near-miss tracks on offer when no album page matched either
+    return byAlbum.match ? byAlbum : byTrack;
+  },
+
+  score: scoreCandidate,
+};
@@ -0,0 +1,88 @@
+// ---------- Beatport ----------
+// No public API; the search page is a Next.js app whose __NEXT_DATA__ JSON
+// carries the result list. Its shape isn't documented, so we walk it for
+// anything that looks like a track and fall back to the search link.
+import { parseTitle, scoreCandidate } from "@/lib/matching";
+import { BROWSER_UA, fetchOk, pickMatch, slugify } from "./shared";
+import { PROVIDER_META } from "./meta";
+import type { StoreProvider } from "./types";
+
+const BEATPORT_SEARCH = process.env.BEATPORT_SEARCH_URL || "https://www.beatport.com/search/tracks";
+
+type BeatportTrack = {
+  track_id?: number;
+  track_name?: string;
+  mix_name?: string;
+  artists?: { artist_name?: string }[];
+  release?: { release_id?: number; release_name?: string };
+  length?: number;
+  isrc?: string;
+  price?: { value?: number; code?: string };
+};
+
+function isBeatportTrack(v: unknown): v is BeatportTrack {
+  return !!v && typeof v === "object" && "track_id" in v && "track_name" in v;
+}
+
+/** Depth-first walk collecting every track-shaped object */
+function collectTracks(node: unknown, out: BeatportTrack[], depth = 0) {
+  if (depth > 12 || !node || typeof node !== "object") return out;
+  if (isBeatportTrack(node)) {
+    out.push(node);
+    return out;
+  }
+  for (const child of Array.isArray(node) ? node : Object.values(node)) collectTracks(child, out, depth + 1);
+  return out;
+}
+
+export function parseBeatportSearch(html: string) {
+  const m = html.match(/<script id="__NEXT_DATA__"[^>]*>([\s\S]*?)<\/script>/);
+  if (!m) return [];
+  let data: unknown;
+  try { data = JSON.parse(m[1]); } catch { return []; }
+
+  // The same track can appear in several queries of the page state
+  const byId = new Map<number, BeatportTrack>();
+  for (const t of collectTracks(data, [])) {
+    if (t.track_id != null && !byId.has(t.track_id)) byId.set(t.track_id, t);
+  }
+  return [...byId.values()].map((t) => {
+    const name = t.track_name ?? "";
+    // Beatport keeps the version apart ("Original Mix"); Spotify puts it in the title
+    const title = t.mix_name ? `${name} (${t.mix_name})` : name;
+    return {
+      id: String(t.track_id),
+      albumId: t.release?.release_id != null ? String(t.release.release_id) : null,
+      title,
+      artist: (t.artists ?? []).map((a) => a.artist_name).filter(Boolean).join(", "),
+      album: t.release?.release_name ?? null,
+      url: `https://www.beatport.com/track/${slugify(name) || "track"}/${t.track_id}`,
+      appLinks: [],
+      price: t.price?.value ?? null,
+      currency: t.price?.code ?? null,
+      durationMs: t.length,
+      isrc: t.isrc,
+    };
+  });
+}
+
+export const beatport: StoreProvider = {
+  ...PROVIDER_META.beatport,
+
+  /** Beatport lists every mix of a track, so the version goes into the search too */
+  searchUrl(target) {
+    const { base, version } = parseTitle(target.title);
+    const q = `${target.artist.split(",")[0]} ${base} ${version ?? ""}`.trim();
+    return `${BEATPORT_SEARCH}?q=${encodeURIComponent(q)}`;
+  },
+
+  async search(target) {
+    const searchUrl = beatport.searchUrl(target, "");
+    const res = await fetchOk("beatport", searchUrl, {
+      headers: { "User-Agent": BROWSER_UA, Accept: "text/html" },
+    });
+    return pickMatch(beatport, target, parseBeatportSearch(await res.text()), searchUrl);
+  },
+
+  score: scoreCandidate,
+};
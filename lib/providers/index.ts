@@ -0,0 +1,24 @@
+import { apple } from "./apple";
+import { bandcamp } from "./bandcamp";
+import { beatport } from "./beatport";
+import { qobuz } from "./qobuz";
+import { sevendigital } from "./sevendigital";
+import { DEFAULT_PROVIDER_IDS } from "./meta";
+import type { ProviderMeta, StoreProvider } from "./types";
+
+export { PROVIDER_META, DEFAULT_PROVIDER_IDS, type ProviderId } from "./meta";
+export type * from "./types";
+
+/** Every store we know, in the order their buttons appear */
+export const PROVIDERS: StoreProvider[] = [apple, bandcamp, beatport, qobuz, sevendigital];
+
+/** The providers a request asked for, ignoring unknown IDs; defaults when none are valid */
+export function getProviders(ids: unknown): StoreProvider[] {
+  const wanted = Array.isArray(ids) ? ids.filter((id): id is string => typeof id === "string") : [];
+  const picked = PROVIDERS.filter((p) => wanted.includes(p.id));
+  return picked.length ? picked : PROVIDERS.filter((p) => (DEFAULT_PROVIDER_IDS as string[]).includes(p.id));
+}
+
+export function toMeta({ id, label, perCountry }: StoreProvider): ProviderMeta {
+  return { id, label, perCountry };
+}
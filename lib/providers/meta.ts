@@ -0,0 +1,15 @@
+import type { ProviderMeta } from "./types";
+
+// Plain data so the page can list providers without pulling in server code
+export const PROVIDER_META = {
+  apple: { id: "apple", label: "iTunes Store", perCountry: true },
+  bandcamp: { id: "bandcamp", label: "Bandcamp", perCountry: false },
+  beatport: { id: "beatport", label: "Beatport", perCountry: false },
+  qobuz: { id: "qobuz", label: "Qobuz", perCountry: true },
+  sevendigital: { id: "sevendigital", label: "7digital", perCountry: true },
+} satisfies Record<string, ProviderMeta>;
+
+export type ProviderId = keyof typeof PROVIDER_META;
+
+/** What runs when the request doesn't say */
+export const DEFAULT_PROVIDER_IDS: ProviderId[] = ["apple", "bandcamp"];
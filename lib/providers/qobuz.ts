@@ -0,0 +1,67 @@
+// ---------- Qobuz ----------
+// Direct matches need a Qobuz API app ID (QOBUZ_APP_ID); without one we only
+// link to the storefront's search page.
+import { cleanTrackTitleForSearch, scoreCandidate } from "@/lib/matching";
+import { fetchOk, pickMatch, searchOnly } from "./shared";
+import { PROVIDER_META } from "./meta";
+import type { StoreProvider } from "./types";
+
+const QOBUZ_API = process.env.QOBUZ_API_URL || "https://www.qobuz.com/api.json/0.2";
+
+// Qobuz storefronts are language-specific; anything unlisted gets the US store
+const QOBUZ_LOCALES: Record<string, string> = {
+  US: "us-en", GB: "gb-en", CA: "ca-en", AU: "au-en", DE: "de-de", FR: "fr-fr",
+  ES: "es-es", IT: "it-it", NL: "nl-nl", SE: "se-en", JP: "jp-ja", BR: "br-pt",
+};
+
+type QobuzTrack = {
+  id?: number;
+  title?: string;
+  version?: string | null;
+  isrc?: string;
+  duration?: number;
+  performer?: { name?: string };
+  album?: { id?: string; title?: string; artist?: { name?: string } };
+};
+
+export const qobuz: StoreProvider = {
+  ...PROVIDER_META.qobuz,
+
+  searchUrl(target, country) {
+    const locale = QOBUZ_LOCALES[country] ?? "us-en";
+    const q = `${target.artist.split(",")[0]} ${cleanTrackTitleForSearch(target.title)}`.trim();
+    return `https://www.qobuz.com/${locale}/search/tracks/${encodeURIComponent(q)}`;
+  },
+
+  async search(target, country) {
+    const searchUrl = qobuz.searchUrl(target, country);
+    const appId = process.env.QOBUZ_APP_ID;
+    if (!appId) return searchOnly(searchUrl);
+
+    const query = target.isrc || `${target.artist.split(",")[0]} ${cleanTrackTitleForSearch(target.title)}`;
+    const params = new URLSearchParams({ query, limit: "10", app_id: appId });
+    const res = await fetchOk("qobuz", `${QOBUZ_API}/track/search?${params.toString()}`, {
+      headers: { Accept: "application/json" },
+    });
+    const data: { tracks?: { items?: QobuzTrack[] } } = await res.json();
+    const candidates = (data.tracks?.items ?? [])
+      .filter((t) => t.id != null)
+      .map((t) => ({
+        id: String(t.id),
+        albumId: t.album?.id ?? null,
+        title: t.version ? `${t.title ?? ""} (${t.version})` : t.title ?? "",
+        artist: t.performer?.name ?? t.album?.artist?.name ?? "",
+        album: t.album?.title ?? null,
+        url: `https://open.qobuz.com/track/${t.id}`,
+        appLinks: [],
+        // Track search doesn't include prices
+        price: null,
+        currency: null,
+        durationMs: t.duration != null ? t.duration * 1000 : undefined,
+        isrc: t.isrc,
+      }));
+    return pickMatch(qobuz, target, candidates, searchUrl, { strategy: target.isrc ? "isrc" : "text" });
+  },
+
+  score: scoreCandidate,
+};
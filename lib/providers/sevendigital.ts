@@ -0,0 +1,73 @@
+// ---------- 7digital ----------
+// Direct matches need a 7digital API consumer key (SEVENDIGITAL_CONSUMER_KEY);
+// without one we only link to the storefront's search page.
+import { cleanTrackTitleForSearch, scoreCandidate } from "@/lib/matching";
+import { fetchOk, pickMatch, searchOnly } from "./shared";
+import { PROVIDER_META } from "./meta";
+import type { StoreProvider } from "./types";
+
+const SEVENDIGITAL_API = process.env.SEVENDIGITAL_API_URL || "https://api.7digital.com/1.2";
+
+// Storefront subdomains mostly follow the country code, except the UK
+const hostFor = (country: string) => (country === "GB" ? "uk" : country.toLowerCase());
+
+type SevenDigitalTrack = {
+  id?: string;
+  title?: string;
+  version?: string;
+  isrc?: string;
+  duration?: number;
+  artist?: { name?: string };
+  release?: { id?: string; title?: string; url?: string };
+  download?: { packages?: { price?: { currencyCode?: string; recommendedRetailPrice?: number } }[] };
+};
+
+export const sevendigital: StoreProvider = {
+  ...PROVIDER_META.sevendigital,
+
+  searchUrl(target, country) {
+    const q = `${target.artist.split(",")[0]} ${cleanTrackTitleForSearch(target.title)}`.trim();
+    return `https://${hostFor(country)}.7digital.com/search/track?q=${encodeURIComponent(q)}`;
+  },
+
+  async search(target, country) {
+    const searchUrl = sevendigital.searchUrl(target, country);
+    const key = process.env.SEVENDIGITAL_CONSUMER_KEY;
+    if (!key) return searchOnly(searchUrl);
+
+    const params = new URLSearchParams({
+      q: `${target.artist.split(",")[0]} ${cleanTrackTitleForSearch(target.title)}`,
+      country,
+      pagesize: "10",
+      usageTypes: "download",
+      oauth_consumer_key: key,
+    });
+    const res = await fetchOk("sevendigital", `${SEVENDIGITAL_API}/track/search?${params.toString()}`, {
+      headers: { Accept: "application/json" },
+    });
+    const data: { searchResults?: { searchResult?: { track?: SevenDigitalTrack }[] } } = await res.json();
+    const candidates = (data.searchResults?.searchResult ?? [])
+      .map((r) => r.track)
+      .filter((t): t is SevenDigitalTrack => !!t?.id)
+      .map((t) => {
+        const price = t.download?.packages?.[0]?.price;
+        return {
+          id: t.id ?? null,
+          albumId: t.release?.id ?? null,
+          title: t.version ? `${t.title ?? ""} (${t.version})` : t.title ?? "",
+          artist: t.artist?.name ?? "",
+          album: t.release?.title ?? null,
+          // Tracks are bought from their release page
+          url: t.release?.url ?? null,
+          appLinks: [],
+          price: price?.recommendedRetailPrice ?? null,
+          currency: price?.currencyCode ?? null,
+          durationMs: t.duration != null ? t.duration * 1000 : undefined,
+          isrc: t.isrc,
+        };
+      });
+    return pickMatch(sevendigital, target, candidates, searchUrl);
+  },
+
+  score: scoreCandidate,
+};
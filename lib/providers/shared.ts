@@ -0,0 +1,118 @@
+import { MIN_CONFIDENCE, type MatchTarget } from "@/lib/matching";
+import { createScheduler, LookupError } from "@/lib/scheduler";
+import type { ProviderResult, ScoredCandidate, StoreMatch, StoreProvider } from "./types";
+
+// Shared across requests so concurrent playlists don't multiply the load
+export const scheduler = createScheduler({
+  apple: { concurrency: 4, minIntervalMs: 250 },
+  bandcamp: { concurrency: 2, minIntervalMs: 500 },
+  beatport: { concurrency: 2, minIntervalMs: 500 },
+  qobuz: { concurrency: 2, minIntervalMs: 300 },
+  sevendigital: { concurrency: 2, minIntervalMs: 300 },
+});
+
+export const BROWSER_UA =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15";
+
+/** scheduler.fetch that also treats any non-OK status as a failed lookup */
+export async function fetchOk(provider: string, url: string, init?: RequestInit) {
+  const res = await scheduler.fetch(provider, url, { cache: "no-store", ...init });
+  if (!res.ok) throw new LookupError(`${provider}: HTTP ${res.status}`, provider, res.status);
+  return res;
+}
+
+/** Pages on `host` itself or a subdomain, over http(s) with no port or login */
+export function isSiteUrl(url: URL, host: string) {
+  const name = url.hostname.toLowerCase();
+  return (
+    /^https?:$/.test(url.protocol) &&
+    url.port === "" &&
+    !url.username &&
+    !url.password &&
+    (name === host || name.endsWith(`.${host}`))
+  );
+}
+
+export const isBandcampUrl = (url: URL) => isSiteUrl(url, "bandcamp.com");
+
+const MAX_REDIRECTS = 5;
+
+/**
+ * fetchOk for pages whose address came from a user or a scraped page: every
+ * redirect is followed by hand and only to URLs `allowed` accepts, so the
+ * server can't be bounced onto anything else.
+ */
+export async function fetchOkWithin(
+  provider: string,
+  url: string,
+  allowed: (url: URL) => boolean,
+  init?: RequestInit
+) {
+  let current = new URL(url);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (!allowed(current)) throw new LookupError(`${provider}: refused to fetch ${current.host}`, provider, 403);
+    const res = await scheduler.fetch(provider, current.toString(), { cache: "no-store", ...init, redirect: "manual" });
+    const location = res.status >= 300 && res.status < 400 ? res.headers.get("location") : null;
+    if (!location) {
+      if (!res.ok) throw new LookupError(`${provider}: HTTP ${res.status}`, provider, res.status);
+      return res;
+    }
+    current = new URL(location, current);
+  }
+  throw new LookupError(`${provider}: too many redirects`, provider, 508);
+}
+
+const ALTERNATES = 4;
+
+/**
+ * Score and sort a store's raw candidates with the provider's `score`,
+ * keep the best few, and only link the top one if it clears `minConfidence`.
+ */
+export function pickMatch(
+  provider: StoreProvider,
+  target: MatchTarget,
+  candidates: (Omit<StoreMatch, "confidence"> & ScoredCandidate)[],
+  searchUrl: string,
+  opts: { strategy?: string; minConfidence?: number } = {}
+): ProviderResult {
+  const ranked = candidates
+    .map((c): StoreMatch => ({
+      id: c.id,
+      albumId: c.albumId,
+      title: c.title,
+      artist: c.artist,
+      album: c.album,
+      url: c.url,
+      appLinks: c.appLinks,
+      price: c.price,
+      currency: c.currency,
+      confidence: provider.score(target, c),
+    }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, ALTERNATES + 1);
+
+  // Too weak to link blindly; still offered so the user can pick one
+  const min = opts.minConfidence ?? MIN_CONFIDENCE;
+  const best = ranked[0] && ranked[0].confidence >= min ? ranked[0] : null;
+  return {
+    match: best,
+    alternates: best ? ranked.slice(1) : ranked,
+    strategy: best ? opts.strategy ?? "text" : null,
+    searchUrl,
+    checked: true,
+  };
+}
+
+/** For providers that can't look anything up right now: just the search link */
+export function searchOnly(searchUrl: string): ProviderResult {
+  return { match: null, alternates: [], strategy: null, searchUrl, checked: false };
+}
+
+export function slugify(s: string) {
+  return s
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
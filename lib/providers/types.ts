@@ -0,0 +1,59 @@
+import type { MatchCandidate, MatchTarget } from "@/lib/matching";
+
+/**
+ * "failed" means we couldn't ask the store; "no_match" means we asked and it
+ * had nothing; "unchecked" means the provider can only offer a search link.
+ */
+export type LookupStatus = "matched" | "no_match" | "failed" | "unchecked";
+
+/** One release a store offered for a track */
+export type StoreMatch = {
+  /** The store's own track ID, when it has one */
+  id: string | null;
+  /** The release/album ID, for stores that group tracks that way */
+  albumId: string | null;
+  title: string;
+  artist: string;
+  album: string | null;
+  /** Web page to buy from */
+  url: string | null;
+  /** Native-app deep links, tried in order before `url` */
+  appLinks: string[];
+  /** null when the track is album-only or the store doesn't list a price */
+  price: number | null;
+  currency: string | null;
+  confidence: number;
+};
+
+export type ProviderResult = {
+  /** Best candidate above the provider's threshold */
+  match: StoreMatch | null;
+  /** Runners-up, offered so the user can pick a different one */
+  alternates: StoreMatch[];
+  /** How `match` was found, e.g. "isrc" or "text" */
+  strategy: string | null;
+  /** Store search page for this track, always available as a fallback */
+  searchUrl: string;
+  /** false when the provider didn't look anything up (e.g. no API key configured) */
+  checked: boolean;
+};
+
+/** Candidates as providers score them: the matching fields plus where they link */
+export type ScoredCandidate = MatchCandidate & { url: string | null };
+
+/** What the page needs to render a store's buttons */
+export type ProviderMeta = {
+  id: string;
+  label: string;
+  /** Results vary by storefront, so the lookup runs once per requested country */
+  perCountry: boolean;
+};
+
+export type StoreProvider = ProviderMeta & {
+  /** Store search page for a track; never touches the network */
+  searchUrl(target: MatchTarget, country: string): string;
+  /** Throws LookupError when the store couldn't be asked */
+  search(target: MatchTarget, country: string): Promise<ProviderResult>;
+  /** Confidence in 0..1 that `candidate` is the target recording */
+  score(target: MatchTarget, candidate: ScoredCandidate): number;
+};
@@ -0,0 +1,53 @@
+// ---------- Rate limits ----------
+// Fixed windows counted in memory, per process: enough to stop one caller
+// hammering a route, not a quota shared between several servers. The v1 API
+// counts per key; routes without keys count per client.
+
+import { ApiError } from "@/lib/api";
+
+/** What's left of a caller's window, for the X-RateLimit-* headers */
+export type Quota = { name: string; limit: number; remaining: number; resetAt: number };
+
+/** Over the limit; carries the quota so the answer still has its X-RateLimit-* headers */
+export class RateLimitedError extends ApiError {
+  constructor(
+    public readonly quota: Quota,
+    message: string
+  ) {
+    super("RATE_LIMITED", message, (quota.resetAt - Date.now()) / 1000);
+  }
+}
+
+/**
+ * `take(name, limit)` counts one request against `name`, throwing
+ * RateLimitedError past `limit` a window. `per` names the window for the message.
+ */
+export function createRateLimiter(windowMs: number, per: string) {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+  return function take(name: string, limit: number, now = Date.now()): Quota {
+    let w = windows.get(name);
+    if (!w || now - w.startedAt >= windowMs) {
+      // Drop finished windows now and then, so one-off callers don't pile up
+      if (windows.size > 10_000) {
+        for (const [k, old] of windows) if (now - old.startedAt >= windowMs) windows.delete(k);
+      }
+      w = { startedAt: now, count: 0 };
+      windows.set(name, w);
+    }
+    const resetAt = w.startedAt + windowMs;
+    if (w.count >= limit) {
+      const message = `Rate limit of ${limit} requests ${per} reached`;
+      throw new RateLimitedError({ name, limit, remaining: 0, resetAt }, message);
+    }
+    w.count++;
+    return { name, limit, remaining: limit - w.count, resetAt };
+  };
+}
+
+export function rateLimitHeaders({ limit, remaining, resetAt }: Quota): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": String(limit),
+    "X-RateLimit-Remaining": String(remaining),
+    "X-RateLimit-Reset": String(Math.ceil(resetAt / 1000)),
+  };
+}
@@ -0,0 +1,176 @@
+// ---------- Other services → track lists ----------
+// Reads the track list behind an Apple Music / iTunes album or playlist
+// link, or a Bandcamp album/track page, so it can be matched on Spotify.
+
+import { ApiError } from "@/lib/api";
+import { BROWSER_UA, fetchOk, fetchOkWithin, isBandcampUrl, isSiteUrl } from "@/lib/providers/shared";
+import { LookupError } from "@/lib/scheduler";
+import { attributes } from "@/lib/xml";
+
+const ITUNES_LOOKUP = process.env.ITUNES_LOOKUP_URL || "https://itunes.apple.com/lookup";
+// The lookup API takes a comma-separated ID list; keep URLs a sane length
+const LOOKUP_BATCH = 150;
+
+export type ForeignLink =
+  | { service: "apple"; kind: "album"; id: string; trackId: string | null; country: string; url: string }
+  | { service: "apple"; kind: "playlist"; id: string; country: string; url: string }
+  | { service: "bandcamp"; kind: "album"; url: string };
+
+export type ForeignTrack = {
+  title: string;
+  artist: string;
+  album?: string;
+  durationMs?: number;
+};
+
+export type ForeignSource = { name: string; tracks: ForeignTrack[] };
+
+/** Apple's web pages; the playlist page is fetched, so only Apple's own hosts */
+const isAppleUrl = (url: URL) => isSiteUrl(url, "music.apple.com") || isSiteUrl(url, "itunes.apple.com");
+
+/**
+ * music.apple.com and itunes.apple.com album/playlist links (album links
+ * with ?i= point at one song), and album/track pages on *.bandcamp.com.
+ * Artists' own domains aren't fetched; their bandcamp.com address works.
+ */
+export function parseForeignLink(input: string): ForeignLink {
+  let url: URL;
+  try { url = new URL(input.trim()); } catch { throw new ApiError("INVALID_LINK", "Invalid URL"); }
+
+  if (isAppleUrl(url)) {
+    const country = url.pathname.match(/^\/([a-z]{2})\//i)?.[1]?.toUpperCase() ?? "US";
+    const playlist = url.pathname.match(/\/playlist\/(?:[^/]+\/)?(pl\.[\w-]+)/i);
+    if (playlist) return { service: "apple", kind: "playlist", id: playlist[1], country, url: url.toString() };
+    const album = url.pathname.match(/\/album\/(?:[^/]+\/)?(?:id)?(\d+)/i);
+    if (album) {
+      const i = url.searchParams.get("i");
+      const trackId = i && /^\d+$/.test(i) ? i : null;
+      return { service: "apple", kind: "album", id: album[1], trackId, country, url: url.toString() };
+    }
+    throw new ApiError("INVALID_LINK", "Only Apple Music album and playlist links are supported");
+  }
+  if (!isBandcampUrl(url)) {
+    throw new ApiError("INVALID_LINK", "Paste an Apple Music link or a Bandcamp page on bandcamp.com");
+  }
+  url.protocol = "https:";
+  return { service: "bandcamp", kind: "album", url: url.toString() };
+}
+
+// ---------- Apple ----------
+type LookupResult = {
+  wrapperType?: string;
+  kind?: string;
+  trackId?: number;
+  trackName?: string;
+  artistName?: string;
+  collectionName?: string;
+  collectionCensoredName?: string;
+  trackTimeMillis?: number;
+};
+
+async function lookup(params: Record<string, string>) {
+  const res = await fetchOk("apple", `${ITUNES_LOOKUP}?${new URLSearchParams(params).toString()}`);
+  const data: { results?: LookupResult[] } = await res.json();
+  return data.results ?? [];
+}
+
+function toForeign(r: LookupResult): ForeignTrack {
+  return {
+    title: r.trackName ?? "",
+    artist: r.artistName ?? "",
+    album: r.collectionName,
+    durationMs: r.trackTimeMillis,
+  };
+}
+
+const isSong = (r: LookupResult) => r.wrapperType === "track" && r.kind === "song" && !!r.trackName;
+
+async function appleAlbum(link: Extract<ForeignLink, { kind: "album"; service: "apple" }>): Promise<ForeignSource> {
+  const results = await lookup({ id: link.id, entity: "song", country: link.country });
+  const album = results.find((r) => r.wrapperType === "collection");
+  const songs = results.filter(isSong).filter((r) => !link.trackId || String(r.trackId) === link.trackId);
+  if (!album && !songs.length) throw new ApiError("PLAYLIST_NOT_FOUND", "Apple Music couldn't find that album");
+  const name = album?.collectionCensoredName ?? album?.collectionName ?? songs[0]?.collectionName ?? "";
+  return { name, tracks: songs.map(toForeign) };
+}
+
+/**
+ * The lookup API has no playlists, so read the song IDs off the playlist's
+ * web page and look those up instead.
+ */
+async function applePlaylist(link: Extract<ForeignLink, { kind: "playlist" }>): Promise<ForeignSource> {
+  const res = await fetchOkWithin("apple", link.url, isAppleUrl, {
+    headers: { "User-Agent": BROWSER_UA, Accept: "text/html" },
+  });
+  const html = await res.text();
+  const ids = [
+    ...new Set([...html.matchAll(/\/song\/(?:[^/"?]+\/)?(\d{5,})|[?&](?:amp;)?i=(\d{5,})/g)].map((m) => m[1] ?? m[2])),
+  ];
+  if (!ids.length) throw new ApiError("UPSTREAM_UNAVAILABLE", "Couldn't read the tracks of that Apple Music playlist");
+
+  const ogTitle = html.match(/<meta[^>]+property="og:title"[^>]*>/i)?.[0];
+  const name = (ogTitle && attributes(ogTitle).content) || "Apple Music playlist";
+  const byId = new Map<string, LookupResult>();
+  for (let i = 0; i < ids.length; i += LOOKUP_BATCH) {
+    const results = await lookup({ id: ids.slice(i, i + LOOKUP_BATCH).join(","), country: link.country });
+    for (const r of results.filter(isSong)) byId.set(String(r.trackId), r);
+  }
+  // Keep the playlist's order, not the lookup's
+  const tracks = ids.map((id) => byId.get(id)).filter((r): r is LookupResult => !!r).map(toForeign);
+  return { name, tracks };
+}
+
+// ---------- Bandcamp ----------
+type Tralbum = {
+  artist?: string;
+  current?: { title?: string };
+  trackinfo?: { title?: string; artist?: string | null; duration?: number }[];
+};
+
+/** Album and track pages carry their data as JSON in a data-tralbum attribute */
+export function parseTralbum(html: string): ForeignSource {
+  const tag = html.match(/<[^>]+\bdata-tralbum="[^"]*"[^>]*>/)?.[0];
+  const raw = tag ? attributes(tag)["data-tralbum"] : undefined;
+  if (!raw) throw new ApiError("INVALID_LINK", "That doesn't look like a Bandcamp album or track page");
+  let data: Tralbum;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new ApiError("UPSTREAM_UNAVAILABLE", "Couldn't read that Bandcamp page");
+  }
+
+  const album = data.current?.title ?? "";
+  const tracks = (data.trackinfo ?? [])
+    .filter((t) => t.title)
+    .map((t) => ({
+      title: t.title ?? "",
+      // Compilations credit each track; otherwise it's the album artist
+      artist: t.artist || data.artist || "",
+      album,
+      durationMs: t.duration ? Math.round(t.duration * 1000) : undefined,
+    }));
+  return { name: album, tracks };
+}
+
+async function bandcampAlbum(link: Extract<ForeignLink, { service: "bandcamp" }>) {
+  const res = await fetchOkWithin("bandcamp", link.url, isBandcampUrl, {
+    headers: { "User-Agent": BROWSER_UA, Accept: "text/html" },
+  });
+  return parseTralbum(await res.text());
+}
+
+const SERVICE_NAMES = { apple: "Apple Music", bandcamp: "Bandcamp" };
+
+/** Store failures come back without their HTTP status; that's between us and the store */
+export async function fetchForeignTracks(link: ForeignLink): Promise<ForeignSource> {
+  try {
+    if (link.service === "bandcamp") return await bandcampAlbum(link);
+    return await (link.kind === "playlist" ? applePlaylist(link) : appleAlbum(link));
+  } catch (e) {
+    if (!(e instanceof LookupError)) throw e;
+    const service = SERVICE_NAMES[link.service];
+    if (e.status === 404) throw new ApiError("PLAYLIST_NOT_FOUND", `${service} couldn't find that page`);
+    const code = e.status === 429 ? "UPSTREAM_RATE_LIMITED" : "UPSTREAM_UNAVAILABLE";
+    throw new ApiError(code, `${service} didn't answer properly; try again in a moment`);
+  }
+}
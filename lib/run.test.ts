@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Track, TrackResult } from "@/lib/api";
+import type { LookupStatus } from "@/lib/providers/types";
+import { loadTracks, recordRun, type LoadOptions } from "@/lib/run";
+
+// The playlist as Spotify lists it right now
+let playlist: Track[] = [];
+vi.mock("@/lib/spotify-source", () => ({
+  fetchAllTracks: async () => ({ name: "Weekly", tracks: playlist, skipped: [], snapshotId: `v${playlist.length}` }),
+}));
+
+const track = (id: string): Track => ({ id, addedAt: "2024-05-01T00:00:00Z", title: id, artist: "Artist" });
+
+const result = (t: Track, status: LookupStatus): TrackResult => ({
+  ...t,
+  stores: { apple: { status, match: null, strategy: null, alternates: [], searchUrl: "https://example.com" } },
+});
+
+let source: { kind: "playlist"; id: string };
+let lists = 0;
+
+const options = (mode: LoadOptions["mode"], owner = "browser:one"): LoadOptions => ({
+  token: "token",
+  market: "GB",
+  mode,
+  since: mode === "since_date" ? new Date("2024-01-01") : null,
+  owner,
+});
+
+/** Load and, like a finished run, record it with every lookup ending as `status` */
+async function run(mode: LoadOptions["mode"], owner?: string, status: LookupStatus = "matched") {
+  const loaded = await loadTracks(source, options(mode, owner));
+  await recordRun(loaded, loaded.tracks.map((t) => result(t, status)));
+  return loaded.tracks.map((t) => t.id);
+}
+
+beforeEach(() => {
+  // A fresh playlist per test, so snapshots don't carry over
+  source = { kind: "playlist", id: `list${++lists}` };
+  playlist = [track("a"), track("b")];
+});
+
+describe("new since last run", () => {
+  it("counts only tracks added after a finished run", async () => {
+    expect(await run("since_last")).toEqual(["a", "b"]);
+    playlist.push(track("c"));
+    expect(await run("since_last")).toEqual(["c"]);
+  });
+
+  it("isn't used up by a run that never finished", async () => {
+    await loadTracks(source, options("since_last"));
+    expect(await run("since_last")).toEqual(["a", "b"]);
+  });
+
+  it("isn't overwritten by full or since-date runs", async () => {
+    await run("since_last");
+    playlist.push(track("c"));
+    await run("full");
+    await run("since_date");
+    expect(await run("since_last")).toEqual(["c"]);
+  });
+
+  it("is kept per owner", async () => {
+    await run("since_last", "browser:one");
+    expect(await run("since_last", "browser:two")).toEqual(["a", "b"]);
+    expect(await run("since_last", "user:someone")).toEqual(["a", "b"]);
+  });
+
+  it("offers tracks whose lookups failed again", async () => {
+    await run("since_last", undefined, "failed");
+    playlist.push(track("c"));
+    expect(await run("since_last")).toEqual(["a", "b", "c"]);
+  });
+
+  it("needs an owner to diff a playlist", async () => {
+    await expect(loadTracks(source, { ...options("since_last"), owner: undefined })).rejects.toMatchObject({
+      code: "INVALID_REQUEST",
+    });
+  });
+});
@@ -0,0 +1,173 @@
+// ---------- Matching runs ----------
+// A whole run without any web framework around it: read a Spotify source,
+// keep only the new tracks in a diff mode, look every track up on the
+// stores and price the releases they share. /api/playlist streams it as
+// NDJSON; the speebee CLI prints it.
+
+import {
+  ApiError,
+  isFailed,
+  isMatched,
+  type BundleSuggestion,
+  type DiffSummary,
+  type ResolvedSource,
+  type SkippedItem,
+  type SpotifySource,
+  type Track,
+  type TrackResult,
+} from "@/lib/api";
+import { suggestBundles } from "@/lib/bundle-prices";
+import { resolveTrack, type LookupOptions } from "@/lib/lookup";
+import {
+  diffPlaylist,
+  getSnapshot,
+  saveSnapshot,
+  snapshotKey as trackKey,
+  type DiffMode,
+  type PlaylistSnapshot,
+} from "@/lib/snapshots";
+import { fetchAllTracks } from "@/lib/spotify-source";
+
+// ---------- Sources ----------
+/**
+ * Where the previous run of a diffable source is remembered. Playlists are
+ * remembered per owner (a Spotify account, a browser, the CLI), so one
+ * person's run doesn't use up another's "new since last run".
+ */
+export function snapshotKeyFor(source: SpotifySource, owner: string | undefined, userId: string | undefined) {
+  if (source.kind === "playlist" && owner) return `playlist:${source.id}:${owner}`;
+  if (source.kind === "liked" && userId) return `liked:${userId}`;
+  return null;
+}
+
+/** A snapshot to record once the run it came from has finished */
+type PendingSnapshot = { key: string; snapshot: PlaylistSnapshot };
+
+/**
+ * In a diff mode, keep only the tracks that are new since the previous run
+ * (or since a date). "since_last" also hands back this run's snapshot for
+ * `recordRun`; a list with pages Spotify wouldn't return has none, and
+ * can't tell what was removed.
+ */
+async function applyDiff(
+  key: string | null,
+  fetched: { tracks: Track[]; skipped: SkippedItem[]; snapshotId?: string },
+  mode: DiffMode,
+  since: Date | null
+): Promise<{ tracks: Track[]; diff: DiffSummary | null; pending: PendingSnapshot | null }> {
+  if (!key || mode === "full") return { tracks: fetched.tracks, diff: null, pending: null };
+  const previous = await getSnapshot(key);
+  const complete = !fetched.skipped.some((s) => s.reason === "fetch_failed");
+  const snapshot: PlaylistSnapshot = {
+    snapshotId: fetched.snapshotId ?? null,
+    takenAt: Date.now(),
+    tracks: fetched.tracks.map(({ id, addedAt, title, artist }) => ({ id, addedAt, title, artist })),
+  };
+
+  const { added, removed } = diffPlaylist(previous, fetched.tracks, mode, since ?? undefined);
+  return {
+    tracks: added,
+    diff: {
+      mode,
+      since: since?.toISOString() ?? null,
+      previousRun: previous?.takenAt ?? null,
+      unchanged: !!previous?.snapshotId && previous.snapshotId === fetched.snapshotId,
+      removed: complete ? removed : [],
+    },
+    pending: complete && mode === "since_last" ? { key, snapshot } : null,
+  };
+}
+
+export type LoadOptions = {
+  /** App token, or the user's for private playlists and Liked Songs */
+  token: string;
+  /** Market for availability; the first storefront */
+  market: string;
+  mode: DiffMode;
+  since: Date | null;
+  /** Whose playlist snapshots these are; a diff of a playlist needs one */
+  owner?: string;
+  /** Whose Liked Songs these are, for their snapshot */
+  userId?: string;
+};
+
+export type LoadedSource = {
+  source: ResolvedSource;
+  /** Every track, or only the new ones in a diff mode */
+  tracks: Track[];
+  skipped: SkippedItem[];
+  diff: DiffSummary | null;
+  /** What `recordRun` saves; null when this run isn't remembered */
+  pending: PendingSnapshot | null;
+};
+
+/** Read a resolved link's tracks; a diff mode needs a playlist or Liked Songs */
+export async function loadTracks(source: SpotifySource, opts: LoadOptions): Promise<LoadedSource> {
+  const snapshotKey = snapshotKeyFor(source, opts.owner, opts.userId);
+  if (opts.mode !== "full" && !snapshotKey) {
+    throw new ApiError("INVALID_REQUEST", "Only playlists and Liked Songs can show new tracks");
+  }
+  const fetched = await fetchAllTracks(source, opts.token, opts.market);
+  const { tracks, diff, pending } = await applyDiff(snapshotKey, fetched, opts.mode, opts.since);
+  return { source: { ...source, name: fetched.name }, tracks, skipped: fetched.skipped, diff, pending };
+}
+
+/**
+ * Remember a finished "new since last run" for the next one. Call it only
+ * once every lookup is done: a run that fails or is dropped halfway leaves
+ * the previous snapshot in place. Tracks whose lookups failed are left out,
+ * so they come up as new again.
+ */
+export async function recordRun(loaded: LoadedSource, results: TrackResult[]) {
+  if (!loaded.pending) return;
+  const { key, snapshot } = loaded.pending;
+  const failed = new Set(loaded.tracks.filter((_, i) => isFailed(results[i])).map(trackKey));
+  await saveSnapshot(
+    key,
+    failed.size
+      ? {
+          // Spotify's version ID no longer describes what's recorded
+          snapshotId: null,
+          takenAt: snapshot.takenAt,
+          tracks: snapshot.tracks.filter((t) => !failed.has(trackKey(t))),
+        }
+      : snapshot
+  );
+}
+
+// ---------- Lookups ----------
+export type RunTotals = { total: number; matched: number; unmatched: number; failed: number };
+
+export type RunResult = {
+  /** In track order */
+  results: TrackResult[];
+  totals: RunTotals;
+  bundles: BundleSuggestion[];
+};
+
+/**
+ * Look every track up, calling `onTrack` as each one finishes (completion
+ * order, not track order), then price the releases several matches share
+ * in the storefront the results link to.
+ */
+export async function matchTracks(
+  tracks: Track[],
+  opts: LookupOptions,
+  onTrack?: (index: number, result: TrackResult, totals: RunTotals) => void
+): Promise<RunResult> {
+  const totals: RunTotals = { total: tracks.length, matched: 0, unmatched: 0, failed: 0 };
+  const results: TrackResult[] = [];
+  await Promise.all(
+    tracks.map(async (t, index) => {
+      const result = await resolveTrack(t, opts);
+      if (isMatched(result)) totals.matched++;
+      else if (isFailed(result)) totals.failed++;
+      else totals.unmatched++;
+      results[index] = result;
+      onTrack?.(index, result, totals);
+    })
+  );
+  const providerIds = opts.providers.map((p) => p.id);
+  const bundles = await suggestBundles(results, providerIds, opts.countries[0]).catch(() => []);
+  return { results, totals, bundles };
+}
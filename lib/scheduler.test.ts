@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { createScheduler, LookupError } from "@/lib/scheduler";
+import { startFakeServer, type FakeServer } from "@/test/fake-server";
+
+let server: FakeServer | null = null;
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+});
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("createScheduler", () => {
+  it("retries 429s until the store answers", async () => {
+    let hits = 0;
+    server = await startFakeServer((_req, res) => {
+      hits++;
+      res.writeHead(hits < 3 ? 429 : 200, { "Retry-After": "0" });
+      res.end(hits < 3 ? "slow down" : "ok");
+    });
+    const scheduler = createScheduler({ store: { concurrency: 1 } });
+
+    const res = await scheduler.fetch("store", server.url);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("ok");
+    expect(hits).toBe(3);
+  });
+
+  it("waits as long as Retry-After says", async () => {
+    const times: number[] = [];
+    server = await startFakeServer((_req, res) => {
+      times.push(Date.now());
+      res.writeHead(times.length === 1 ? 429 : 200, { "Retry-After": "1" });
+      res.end();
+    });
+    const scheduler = createScheduler({ store: { concurrency: 1, baseDelayMs: 1 } });
+
+    await scheduler.fetch("store", server.url);
+    expect(times).toHaveLength(2);
+    expect(times[1] - times[0]).toBeGreaterThanOrEqual(950);
+  });
+
+  it("caps Retry-After at maxDelayMs", async () => {
+    const times: number[] = [];
+    server = await startFakeServer((_req, res) => {
+      times.push(Date.now());
+      res.writeHead(times.length === 1 ? 429 : 200, { "Retry-After": "3600" });
+      res.end();
+    });
+    const scheduler = createScheduler({ store: { concurrency: 1, maxDelayMs: 100 } });
+
+    await scheduler.fetch("store", server.url);
+    expect(times[1] - times[0]).toBeLessThan(1000);
+  });
+
+  it("throws LookupError with the last status once retries run out", async () => {
+    let hits = 0;
+    server = await startFakeServer((_req, res) => {
+      hits++;
+      res.writeHead(429, { "Retry-After": "0" });
+      res.end();
+    });
+    const scheduler = createScheduler({ store: { concurrency: 1, maxRetries: 2 } });
+
+    const error = await scheduler.fetch("store", server.url).catch((e) => e);
+    expect(error).toBeInstanceOf(LookupError);
+    expect(error).toMatchObject({ provider: "store", status: 429 });
+    expect(hits).toBe(3);
+  });
+
+  it("returns 4xx answers without retrying", async () => {
+    let hits = 0;
+    server = await startFakeServer((_req, res) => {
+      hits++;
+      res.writeHead(404);
+      res.end();
+    });
+    const scheduler = createScheduler({ store: { concurrency: 1 } });
+
+    expect((await scheduler.fetch("store", server.url)).status).toBe(404);
+    expect(hits).toBe(1);
+  });
+
+  it("keeps no more requests in flight than the provider's concurrency", async () => {
+    let active = 0;
+    let most = 0;
+    let throttled = 0;
+    server = await startFakeServer(async (_req, res) => {
+      active++;
+      most = Math.max(most, active);
+      await sleep(30);
+      active--;
+      // Every third request is throttled once, so retries go through the cap too
+      if (++throttled % 3 === 0) res.writeHead(429, { "Retry-After": "0" });
+      res.end();
+    });
+    const scheduler = createScheduler({ store: { concurrency: 2, baseDelayMs: 1 } });
+
+    const responses = await Promise.all(Array.from({ length: 10 }, () => scheduler.fetch("store", server!.url)));
+    expect(responses.every((r) => r.status === 200)).toBe(true);
+    expect(most).toBe(2);
+  });
+
+  it("rejects providers it wasn't set up with", async () => {
+    const scheduler = createScheduler({ store: { concurrency: 1 } });
+    await expect(scheduler.fetch("nope", "http://127.0.0.1:9")).rejects.toThrow("Unknown provider: nope");
+  });
+});
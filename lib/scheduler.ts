@@ -0,0 +1,131 @@
+// ---------- Per-provider request scheduler ----------
+// Caps how many requests each provider sees at once, spaces them out, and
+// retries 429/503 responses with Retry-After or exponential backoff.
+
+export type ProviderLimits = {
+  /** Max requests in flight at once */
+  concurrency: number;
+  /** Minimum gap between two request starts */
+  minIntervalMs?: number;
+  /** Retries after the first attempt for 429/5xx/network errors */
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+};
+
+/** Thrown when a provider keeps failing after all retries */
+export class LookupError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "LookupError";
+  }
+}
+
+type Slot = {
+  limits: Required<ProviderLimits>;
+  active: number;
+  queue: (() => void)[];
+  nextStart: number;
+};
+
+const DEFAULTS: Required<Omit<ProviderLimits, "concurrency">> = {
+  minIntervalMs: 0,
+  maxRetries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Retry-After is either delta-seconds or an HTTP date */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const secs = Number(header);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+  const at = Date.parse(header);
+  if (!Number.isNaN(at)) return Math.max(0, at - Date.now());
+  return null;
+}
+
+function isRetryable(status: number) {
+  return status === 429 || status === 502 || status === 503 || status === 504;
+}
+
+export function createScheduler(providers: Record<string, ProviderLimits>) {
+  const slots = new Map<string, Slot>();
+  for (const [name, limits] of Object.entries(providers)) {
+    slots.set(name, { limits: { ...DEFAULTS, ...limits }, active: 0, queue: [], nextStart: 0 });
+  }
+
+  function slotFor(provider: string) {
+    const slot = slots.get(provider);
+    if (!slot) throw new Error(`Unknown provider: ${provider}`);
+    return slot;
+  }
+
+  async function acquire(slot: Slot) {
+    if (slot.active >= slot.limits.concurrency) {
+      await new Promise<void>((resolve) => slot.queue.push(resolve));
+    }
+    slot.active++;
+    // Reserve a start time so parallel acquirers don't all fire at once
+    const now = Date.now();
+    const startAt = Math.max(now, slot.nextStart);
+    slot.nextStart = startAt + slot.limits.minIntervalMs;
+    if (startAt > now) await sleep(startAt - now);
+  }
+
+  function release(slot: Slot) {
+    slot.active--;
+    slot.queue.shift()?.();
+  }
+
+  function backoff(slot: Slot, attempt: number) {
+    const { baseDelayMs, maxDelayMs } = slot.limits;
+    const exp = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return exp / 2 + Math.random() * (exp / 2);
+  }
+
+  /**
+   * fetch() through the provider's queue. Resolves with the first response
+   * that isn't retryable (including 4xx like 404); throws LookupError once
+   * retries are exhausted.
+   */
+  async function scheduledFetch(provider: string, url: string, init?: RequestInit): Promise<Response> {
+    const slot = slotFor(provider);
+    let lastError = "request failed";
+    let lastStatus: number | undefined;
+
+    for (let attempt = 0; attempt <= slot.limits.maxRetries; attempt++) {
+      let wait: number;
+      await acquire(slot);
+      try {
+        const res = await fetch(url, init);
+        if (!isRetryable(res.status)) return res;
+        lastStatus = res.status;
+        lastError = `HTTP ${res.status}`;
+        const retryAfter = parseRetryAfter(res.headers.get("retry-after"));
+        wait = Math.min(slot.limits.maxDelayMs, retryAfter ?? backoff(slot, attempt));
+        // Hold back everyone else on this provider too, not just this request
+        if (res.status === 429) slot.nextStart = Math.max(slot.nextStart, Date.now() + wait);
+      } catch (e) {
+        lastStatus = undefined;
+        lastError = e instanceof Error ? e.message : "network error";
+        wait = backoff(slot, attempt);
+      } finally {
+        release(slot);
+      }
+      if (attempt < slot.limits.maxRetries) await sleep(wait);
+    }
+
+    throw new LookupError(`${provider}: ${lastError}`, provider, lastStatus);
+  }
+
+  return { fetch: scheduledFetch };
+}
+
+export type Scheduler = ReturnType<typeof createScheduler>;
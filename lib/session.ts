@@ -0,0 +1,41 @@
+// ---------- Encrypted cookies ----------
+// AES-256-GCM with a key derived from SESSION_SECRET, so cookie contents
+// (Spotify tokens) are neither readable nor forgeable by the browser.
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+
+function key() {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret || secret.length < 32) throw new Error("SESSION_SECRET must be at least 32 characters");
+  return createHash("sha256").update(secret).digest();
+}
+
+/** JSON → base64url(iv | tag | ciphertext) */
+export function seal(data: unknown): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key(), iv);
+  const body = Buffer.concat([cipher.update(JSON.stringify(data), "utf8"), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), body]).toString("base64url");
+}
+
+/** null for anything tampered with, truncated or sealed under another secret */
+export function unseal<T>(token: string | undefined): T | null {
+  if (!token) return null;
+  try {
+    const raw = Buffer.from(token, "base64url");
+    const decipher = createDecipheriv("aes-256-gcm", key(), raw.subarray(0, 12));
+    decipher.setAuthTag(raw.subarray(12, 28));
+    const json = Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]).toString("utf8");
+    return JSON.parse(json) as T;
+  } catch {
+    return null;
+  }
+}
+
+export const cookieOptions = (maxAge: number) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+  maxAge,
+});
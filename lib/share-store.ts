@@ -0,0 +1,37 @@
+// ---------- Shared result sets ----------
+// What /r/{id} shows. Always on disk, unlike the caches: a permalink that
+// stops working after a restart isn't much of a permalink. Any CacheStore
+// works here, so a database-backed one can replace the file later.
+
+import { randomBytes } from "node:crypto";
+import type { SharedResult } from "@/lib/api";
+import { createFileStore, type CacheStore } from "@/lib/cache";
+
+const DAY = 24 * 60 * 60 * 1000;
+// "Never expires" still needs a date for the store
+const KEEP_MS = 10 * 365 * DAY;
+
+const store: CacheStore = createFileStore(process.env.SHARE_FILE || ".cache/shares.json");
+
+/** 12 URL-safe characters; long enough that links can't be guessed */
+function newId() {
+  return randomBytes(9).toString("base64url");
+}
+
+export type NewShare = Omit<SharedResult, "id" | "createdAt" | "expiresAt">;
+
+export async function saveShare(share: NewShare, expiresInDays: number | null) {
+  const createdAt = Date.now();
+  const expiresAt = expiresInDays ? createdAt + expiresInDays * DAY : null;
+  const saved: SharedResult = { ...share, id: newId(), createdAt, expiresAt };
+  await store.set(`share:${saved.id}`, { value: saved, expiresAt: expiresAt ?? createdAt + KEEP_MS });
+  return saved;
+}
+
+/** null when the ID is unknown or the link has expired */
+export async function getShare(id: string): Promise<SharedResult | null> {
+  if (!/^[\w-]{1,32}$/.test(id)) return null;
+  const entry = await store.get(`share:${id}`);
+  if (!entry || entry.expiresAt <= Date.now()) return null;
+  return entry.value as SharedResult;
+}
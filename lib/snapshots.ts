@@ -0,0 +1,78 @@
+// ---------- Playlist snapshots ----------
+// What a playlist looked like the last time we ran it, so a weekly run can
+// show just the tracks added since (and the ones that were taken out).
+
+import { createFileStore, createMemoryStore, type CacheStore } from "@/lib/cache";
+
+export type SnapshotTrack = {
+  /** Spotify track ID; null for local files */
+  id: string | null;
+  /** When the track was added to the playlist, as Spotify reports it */
+  addedAt: string | null;
+  title: string;
+  artist: string;
+};
+
+export type PlaylistSnapshot = {
+  /** Spotify's version ID for the playlist; unchanged means no edits since */
+  snapshotId: string | null;
+  /** ms since epoch */
+  takenAt: number;
+  tracks: SnapshotTrack[];
+};
+
+export type DiffMode = "full" | "since_last" | "since_date";
+
+export type PlaylistDiff<T extends SnapshotTrack> = {
+  added: T[];
+  removed: SnapshotTrack[];
+};
+
+const KEEP_MS = 365 * 24 * 60 * 60 * 1000;
+
+/** Local files have no ID, so fall back to their text */
+export function snapshotKey(t: Pick<SnapshotTrack, "id" | "title" | "artist">) {
+  return t.id ?? `local:${t.title}|${t.artist}`.toLowerCase();
+}
+
+/**
+ * Tracks in `current` that are new: not in `previous` for "since_last" (all
+ * of them when there is no previous run), added on or after `since` for
+ * "since_date". Removed tracks are always relative to the previous run.
+ */
+export function diffPlaylist<T extends SnapshotTrack>(
+  previous: PlaylistSnapshot | null,
+  current: T[],
+  mode: Exclude<DiffMode, "full">,
+  since?: Date
+): PlaylistDiff<T> {
+  const before = new Set(previous?.tracks.map(snapshotKey));
+  const now = new Set(current.map(snapshotKey));
+  const cutoff = since?.getTime() ?? 0;
+
+  const added =
+    mode === "since_last"
+      ? current.filter((t) => !before.has(snapshotKey(t)))
+      : current.filter((t) => t.addedAt != null && Date.parse(t.addedAt) >= cutoff);
+  const removed = (previous?.tracks ?? []).filter((t) => !now.has(snapshotKey(t)));
+  return { added, removed };
+}
+
+/** Same switch as the lookup cache: LOOKUP_CACHE=file keeps snapshots across restarts */
+function storeFromEnv(): CacheStore {
+  if (process.env.LOOKUP_CACHE === "file") {
+    return createFileStore(process.env.SNAPSHOT_FILE || ".cache/snapshots.json");
+  }
+  return createMemoryStore(1000);
+}
+
+const store = storeFromEnv();
+
+export async function getSnapshot(key: string): Promise<PlaylistSnapshot | null> {
+  const entry = await store.get(key).catch(() => undefined);
+  return entry && entry.expiresAt > Date.now() ? (entry.value as PlaylistSnapshot) : null;
+}
+
+export async function saveSnapshot(key: string, snapshot: PlaylistSnapshot) {
+  await store.set(key, { value: snapshot, expiresAt: Date.now() + KEEP_MS }).catch(() => {});
+}
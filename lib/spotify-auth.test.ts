@@ -0,0 +1,141 @@
+import { createHash } from "node:crypto";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { readBody, startFakeServer, type FakeServer } from "@/test/fake-server";
+
+// A cookie jar standing in for the request's cookies
+const jar = new Map<string, string>();
+vi.mock("next/headers", () => ({
+  cookies: async () => ({
+    get: (name: string) => (jar.has(name) ? { name, value: jar.get(name) } : undefined),
+    set: (name: string, value: string) => jar.set(name, value),
+    delete: (name: string) => jar.delete(name),
+  }),
+}));
+
+type TokenCall = { auth: string | undefined; params: URLSearchParams };
+
+let accounts: FakeServer;
+let tokenCalls: TokenCall[] = [];
+/** What the mock's token endpoint answers next */
+let tokenReply: { status: number; body: unknown } = { status: 200, body: {} };
+
+let auth: typeof import("@/lib/spotify-auth");
+let spotify: typeof import("@/lib/spotify");
+let session: typeof import("@/lib/session");
+
+beforeAll(async () => {
+  // One mock for both services: /api/token is the accounts service, /v1/me the Web API
+  accounts = await startFakeServer(async (req, res) => {
+    res.setHeader("Content-Type", "application/json");
+    if (req.method === "POST" && req.url === "/api/token") {
+      tokenCalls.push({ auth: req.headers.authorization, params: new URLSearchParams(await readBody(req)) });
+      res.statusCode = tokenReply.status;
+      res.end(JSON.stringify(tokenReply.body));
+    } else if (req.url === "/v1/me") {
+      const ok = req.headers.authorization === "Bearer user-access";
+      res.statusCode = ok ? 200 : 401;
+      res.end(JSON.stringify(ok ? { id: "listener", display_name: "A Listener" } : {}));
+    } else {
+      res.statusCode = 404;
+      res.end("{}");
+    }
+  });
+  vi.stubEnv("SPOTIFY_ACCOUNTS_URL", accounts.url);
+  vi.stubEnv("SPOTIFY_API_URL", `${accounts.url}/v1`);
+  vi.stubEnv("SPOTIFY_CLIENT_ID", "client");
+  vi.stubEnv("SPOTIFY_CLIENT_SECRET", "secret");
+  vi.stubEnv("SESSION_SECRET", "x".repeat(32));
+  // The base URLs are read when the modules load
+  vi.resetModules();
+  [auth, spotify, session] = await Promise.all([
+    import("@/lib/spotify-auth"),
+    import("@/lib/spotify"),
+    import("@/lib/session"),
+  ]);
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await accounts.close();
+});
+
+beforeEach(() => {
+  jar.clear();
+  tokenCalls = [];
+});
+
+describe("Spotify login", () => {
+  it("sends the browser to the accounts service with a PKCE challenge", () => {
+    const { verifier, challenge } = auth.createPkcePair();
+    expect(challenge).toBe(createHash("sha256").update(verifier).digest("base64url"));
+
+    const url = new URL(auth.authorizeUrl({ state: "st", challenge, redirectUri: "http://app/cb" }));
+    expect(`${url.origin}${url.pathname}`).toBe(`${accounts.url}/authorize`);
+    expect(Object.fromEntries(url.searchParams)).toMatchObject({
+      response_type: "code",
+      client_id: "client",
+      redirect_uri: "http://app/cb",
+      state: "st",
+      code_challenge_method: "S256",
+      code_challenge: challenge,
+    });
+  });
+
+  it("exchanges the code and verifier for tokens and reads the profile", async () => {
+    const body = { access_token: "user-access", refresh_token: "user-refresh", expires_in: 3600 };
+    tokenReply = { status: 200, body };
+
+    const s = await auth.exchangeCode("the-code", "the-verifier", "http://app/cb");
+    expect(s).toMatchObject({
+      accessToken: "user-access",
+      refreshToken: "user-refresh",
+      user: { id: "listener", name: "A Listener" },
+    });
+    expect(s.expiresAt).toBeGreaterThan(Date.now() + 3500_000);
+    expect(Object.fromEntries(tokenCalls[0].params)).toEqual({
+      grant_type: "authorization_code",
+      code: "the-code",
+      redirect_uri: "http://app/cb",
+      client_id: "client",
+      code_verifier: "the-verifier",
+    });
+  });
+
+  it("fails the login when the accounts service rejects the code", async () => {
+    tokenReply = { status: 400, body: { error: "invalid_grant" } };
+    await expect(auth.exchangeCode("bad", "v", "http://app/cb")).rejects.toThrow("Spotify login failed");
+  });
+
+  it("refreshes a session about to expire and keeps the old refresh token if none comes back", async () => {
+    const user = { id: "u", name: "U" };
+    const old = { accessToken: "old", refreshToken: "keep-me", expiresAt: Date.now() + 1000, user };
+    jar.set(auth.SESSION_COOKIE, session.seal(old));
+    tokenReply = { status: 200, body: { access_token: "fresh", expires_in: 3600 } };
+
+    const fresh = await auth.getUserSession();
+    expect(fresh).toMatchObject({ accessToken: "fresh", refreshToken: "keep-me", user: old.user });
+    expect(Object.fromEntries(tokenCalls[0].params)).toEqual({
+      grant_type: "refresh_token",
+      refresh_token: "keep-me",
+      client_id: "client",
+    });
+    expect(session.unseal(jar.get(auth.SESSION_COOKIE))).toMatchObject({ accessToken: "fresh" });
+  });
+
+  it("drops the session cookie when the refresh is rejected", async () => {
+    const old = { accessToken: "old", refreshToken: "revoked", expiresAt: 0, user: { id: "u", name: "U" } };
+    jar.set(auth.SESSION_COOKIE, session.seal(old));
+    tokenReply = { status: 400, body: { error: "invalid_grant" } };
+
+    expect(await auth.getUserSession()).toBeNull();
+    expect(jar.has(auth.SESSION_COOKIE)).toBe(false);
+  });
+
+  it("gets the app token from the same accounts service with client credentials", async () => {
+    tokenReply = { status: 200, body: { access_token: "app-token", expires_in: 3600 } };
+
+    expect((await spotify.getSpotifyAppToken()).access_token).toBe("app-token");
+    expect(tokenCalls[0].auth).toBe(`Basic ${Buffer.from("client:secret").toString("base64")}`);
+    expect(tokenCalls[0].params.get("grant_type")).toBe("client_credentials");
+  });
+});
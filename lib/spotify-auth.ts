@@ -0,0 +1,140 @@
+// ---------- Spotify user login (Authorization Code + PKCE) ----------
+
+import { createHash, randomBytes } from "node:crypto";
+import { cookies } from "next/headers";
+import { ApiError } from "@/lib/api";
+import { cookieOptions, seal, unseal } from "@/lib/session";
+import { SPOTIFY_ACCOUNTS_URL, SPOTIFY_API } from "@/lib/spotify";
+
+export const SESSION_COOKIE = "speebee_session";
+export const OAUTH_COOKIE = "speebee_oauth";
+
+const SCOPES = ["playlist-read-private", "playlist-read-collaborative", "user-library-read"];
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 30;
+
+export type UserSession = {
+  accessToken: string;
+  refreshToken: string;
+  /** ms since epoch */
+  expiresAt: number;
+  user: { id: string; name: string };
+};
+
+/** What the login route stashes for the callback to check */
+export type OAuthState = { state: string; verifier: string; redirectUri: string };
+
+type TokenResponse = { access_token: string; refresh_token?: string; expires_in: number };
+
+function clientId() {
+  const id = process.env.SPOTIFY_CLIENT_ID;
+  if (!id) throw new ApiError("SERVER_MISCONFIGURED", "Missing Spotify env vars");
+  return id;
+}
+
+export function createPkcePair() {
+  const verifier = randomBytes(48).toString("base64url");
+  const challenge = createHash("sha256").update(verifier).digest("base64url");
+  return { verifier, challenge };
+}
+
+export function authorizeUrl({ state, challenge, redirectUri }: { state: string; challenge: string; redirectUri: string }) {
+  const params = new URLSearchParams({
+    response_type: "code",
+    client_id: clientId(),
+    scope: SCOPES.join(" "),
+    redirect_uri: redirectUri,
+    state,
+    code_challenge_method: "S256",
+    code_challenge: challenge,
+  });
+  return `${SPOTIFY_ACCOUNTS_URL}/authorize?${params.toString()}`;
+}
+
+/** SPOTIFY_REDIRECT_URI wins; otherwise the callback on whatever origin the request came in on */
+export function redirectUriFor(origin: string) {
+  return process.env.SPOTIFY_REDIRECT_URI || `${origin}/api/auth/callback`;
+}
+
+async function tokenRequest(body: URLSearchParams): Promise<TokenResponse> {
+  const res = await fetch(`${SPOTIFY_ACCOUNTS_URL}/api/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body,
+    cache: "no-store",
+  });
+  if (!res.ok) throw new Error("Spotify login failed");
+  return res.json();
+}
+
+async function fetchProfile(accessToken: string) {
+  const res = await fetch(`${SPOTIFY_API}/me`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+    cache: "no-store",
+  });
+  if (!res.ok) throw new Error("Failed to read Spotify profile");
+  const me: { id: string; display_name?: string | null } = await res.json();
+  return { id: me.id, name: me.display_name || me.id };
+}
+
+export async function exchangeCode(code: string, verifier: string, redirectUri: string): Promise<UserSession> {
+  const token = await tokenRequest(
+    new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+      client_id: clientId(),
+      code_verifier: verifier,
+    })
+  );
+  if (!token.refresh_token) throw new Error("Spotify login failed");
+  return {
+    accessToken: token.access_token,
+    refreshToken: token.refresh_token,
+    expiresAt: Date.now() + token.expires_in * 1000,
+    user: await fetchProfile(token.access_token),
+  };
+}
+
+async function refreshSession(session: UserSession): Promise<UserSession> {
+  const token = await tokenRequest(
+    new URLSearchParams({
+      grant_type: "refresh_token",
+      refresh_token: session.refreshToken,
+      client_id: clientId(),
+    })
+  );
+  return {
+    ...session,
+    accessToken: token.access_token,
+    // Spotify may or may not rotate the refresh token
+    refreshToken: token.refresh_token ?? session.refreshToken,
+    expiresAt: Date.now() + token.expires_in * 1000,
+  };
+}
+
+export async function saveSession(session: UserSession) {
+  (await cookies()).set(SESSION_COOKIE, seal(session), cookieOptions(SESSION_MAX_AGE));
+}
+
+export async function clearSession() {
+  (await cookies()).delete(SESSION_COOKIE);
+}
+
+/**
+ * The logged-in user's session, refreshed first if the access token is about
+ * to expire. null when nobody is logged in or the refresh was rejected (the
+ * cookie is dropped then, so the page shows "Connect Spotify" again).
+ */
+export async function getUserSession(): Promise<UserSession | null> {
+  const session = unseal<UserSession>((await cookies()).get(SESSION_COOKIE)?.value);
+  if (!session) return null;
+  if (session.expiresAt - 60_000 > Date.now()) return session;
+  try {
+    const fresh = await refreshSession(session);
+    await saveSession(fresh);
+    return fresh;
+  } catch {
+    await clearSession();
+    return null;
+  }
+}
@@ -0,0 +1,360 @@
+// ---------- Spotify links → track lists ----------
+// Accepts whatever people paste (open.spotify.com URLs, spotify: URIs, short
+// links) and reads the tracks behind it with either the app token or a
+// logged-in user's token.
+
+import {
+  ApiError,
+  type SkippedItem,
+  type SkipReason,
+  type SourceKind,
+  type SpotifySource,
+  type Track,
+} from "@/lib/api";
+import { LookupError } from "@/lib/scheduler";
+import { SPOTIFY_API, spotifyFetch } from "@/lib/spotify";
+
+// ---------- Short-link expansion ----------
+const SHORT_HOSTS = new Set([
+  "spotify.link",
+  "www.spotify.link",
+  "spoti.fi",
+  "link.tospotify.com",
+  "spotify.app.link",
+]);
+
+async function expandSpotifyUrl(input: string): Promise<string> {
+  // Allow native URI straight through
+  if (/^spotify:(playlist|album|track|artist):[a-z0-9]+$/i.test(input)) return input;
+  if (/^spotify:(user:[^:]+:)?collection(:tracks)?$/i.test(input)) return input;
+
+  let parsed: URL;
+  try { parsed = new URL(input); } catch { return input; }
+
+  const host = parsed.hostname.toLowerCase();
+  if (!SHORT_HOSTS.has(host) && !SHORT_HOSTS.has(host.replace(/^www\./, ""))) return input;
+
+  try {
+    const res = await fetch(parsed.toString(), {
+      method: "GET",
+      redirect: "follow",
+      cache: "no-store",
+      headers: {
+        "User-Agent":
+          "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15",
+        Accept: "text/html,application/xhtml+xml",
+      },
+    });
+
+    if (res.url) return res.url;
+
+    const html = await res.text().catch(() => "");
+    const m =
+      html.match(/https?:\/\/open\.spotify\.com\/[^\s"'<>]+/i) ||
+      html.match(/content=["'][^"']*url=(https?:\/\/open\.spotify\.com\/[^"']+)/i);
+    if (m && m[1]) return m[1];
+    if (m && m[0]) return m[0];
+    return input;
+  } catch {
+    return input;
+  }
+}
+
+/** Liked Songs has no ID of its own; whose library it is comes from the login */
+const LIKED_SONGS: SpotifySource = { kind: "liked", id: "me" };
+
+/** Try to parse the link type and ID from URL path/URI */
+function parseIdFromUrlOrUri(input: string): SpotifySource {
+  const uri = input.match(/^spotify:(playlist|album|track|artist):([a-zA-Z0-9]+)/i);
+  if (uri) return { kind: uri[1].toLowerCase() as SourceKind, id: uri[2] };
+  if (/^spotify:(user:[^:]+:)?collection(:tracks)?$/i.test(input)) return LIKED_SONGS;
+
+  let url: URL;
+  try { url = new URL(input); } catch { throw new Error("Invalid URL"); }
+
+  // Handles /playlist/{id}, /intl-en/album/{id}, /user/.../playlist/{id}, etc.
+  const m = url.pathname.match(/\/(playlist|album|track|artist)\/([a-zA-Z0-9]+)/i);
+  if (m?.[2]) return { kind: m[1].toLowerCase() as SourceKind, id: m[2] };
+  if (/\/collection\/tracks\/?$/i.test(url.pathname)) return LIKED_SONGS;
+
+  throw new Error("Could not parse Spotify link");
+}
+
+/** Final safety net: ask oEmbed for the embed HTML and extract the ID */
+async function parseIdViaOEmbed(unknownUrl: string): Promise<SpotifySource | null> {
+  try {
+    const o = await fetch(
+      `https://open.spotify.com/oembed?url=${encodeURIComponent(unknownUrl)}`,
+      { cache: "no-store", headers: { Accept: "application/json" } }
+    );
+    if (!o.ok) return null;
+    const data = await o.json();
+    const html: string = data?.html ?? "";
+
+    // <iframe src="https://open.spotify.com/embed/playlist/{ID}?..."
+    const m1 = html.match(/\/embed\/(playlist|album|track|artist)\/([a-zA-Z0-9]+)/i);
+    if (m1?.[2]) return { kind: m1[1].toLowerCase() as SourceKind, id: m1[2] };
+
+    // Or sometimes a URI shows up inside
+    const m2 = html.match(/spotify:(playlist|album|track|artist):([a-zA-Z0-9]+)/i);
+    if (m2?.[2]) return { kind: m2[1].toLowerCase() as SourceKind, id: m2[2] };
+
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Work out what a pasted link points at: expand short links, parse the URL or
+ * URI, and as a last resort ask oEmbed.
+ */
+export async function resolveSpotifyLink(input: string): Promise<SpotifySource> {
+  // 1) Try to expand short link
+  const expanded = await expandSpotifyUrl(input);
+
+  // 2) Try to parse directly
+  try { return parseIdFromUrlOrUri(expanded); } catch { /* fall through */ }
+
+  // 3) Fallback to oEmbed if still unknown
+  const viaOEmbed = await parseIdViaOEmbed(expanded || input);
+  if (viaOEmbed) return viaOEmbed;
+  throw new ApiError("INVALID_LINK", "Could not parse Spotify link");
+}
+
+// ---------- Spotify ----------
+type SpotifyArtist = { name?: string };
+type SpotifyTrack = {
+  id?: string | null;
+  type?: "track" | "episode";
+  name?: string;
+  artists?: SpotifyArtist[];
+  duration_ms?: number;
+  external_ids?: { isrc?: string };
+  album?: { name?: string; release_date?: string };
+  /** Only present when the request names a market */
+  is_playable?: boolean;
+  is_local?: boolean;
+  /** The ID the playlist holds when Spotify swapped in another release for this market */
+  linked_from?: { id?: string };
+  /** Episodes */
+  show?: { name?: string };
+};
+
+/** GET through the Spotify queue, so 429s and 5xx are retried before we give up */
+async function spotifyGet<T>(url: string, token: string): Promise<T> {
+  let res: Response;
+  try {
+    res = await spotifyFetch(url, {
+      headers: { Authorization: `Bearer ${token}` },
+      cache: "no-store",
+    });
+  } catch (e) {
+    if (e instanceof LookupError && e.status === 429) {
+      throw new ApiError("UPSTREAM_RATE_LIMITED", "Spotify is rate-limiting us");
+    }
+    throw new ApiError("UPSTREAM_UNAVAILABLE", "Spotify didn't answer; try again shortly");
+  }
+  if (res.status === 404 || res.status === 403) {
+    throw new ApiError("PLAYLIST_NOT_FOUND", "Spotify couldn't find that link. Private playlists need Connect Spotify.");
+  }
+  if (res.status === 401) throw new ApiError("SPOTIFY_AUTH_FAILED", "Spotify rejected our access token");
+  if (!res.ok) throw new ApiError("UPSTREAM_UNAVAILABLE", `Failed to fetch Spotify tracks (HTTP ${res.status})`);
+  return res.json() as Promise<T>;
+}
+
+type Entry = { track: Track } | { skipped: SkippedItem };
+
+/**
+ * A track we can search for, or why not. Local files keep their tags and are
+ * searched like anything else; they just have no ID or ISRC to go on.
+ */
+function toEntry(track: SpotifyTrack | null | undefined, position: number, addedAt?: string, local?: boolean): Entry {
+  const title = track?.name || null;
+  const artist = (track?.artists?.map((a) => a.name).filter(Boolean) ?? []).join(", ") || null;
+  const by = track?.type === "episode" ? track.show?.name ?? null : artist;
+  const skip = (reason: SkipReason): Entry => ({ skipped: { position, title, artist: by, reason } });
+
+  // A null track is one Spotify has pulled from its catalogue
+  if (!track) return skip("unavailable");
+  if (track.type === "episode") return skip("episode");
+  const isLocal = !!(local || track.is_local);
+  if (isLocal && (!title || !artist)) return skip("local_file");
+  if (!isLocal && track.is_playable === false) return skip("unavailable");
+  if (!title) return skip("missing_title");
+  if (!artist) return skip("missing_artist");
+  return {
+    track: {
+      id: isLocal ? null : track.linked_from?.id ?? track.id ?? null,
+      addedAt: addedAt ?? null,
+      title,
+      artist,
+      album: track.album?.name || undefined,
+      durationMs: track.duration_ms,
+      releaseDate: track.album?.release_date || undefined,
+      isrc: track.external_ids?.isrc,
+      ...(isLocal ? { local: true as const } : {}),
+    },
+  };
+}
+
+type TrackList = { tracks: Track[]; skipped: SkippedItem[] };
+
+function collect(entries: Entry[]): TrackList {
+  const list: TrackList = { tracks: [], skipped: [] };
+  for (const e of entries) {
+    if ("track" in e) list.tracks.push(e.track);
+    else list.skipped.push(e.skipped);
+  }
+  return list;
+}
+
+/** Playlist and Liked Songs entries: the track plus when it was added */
+type SavedItem = { track?: SpotifyTrack | null; added_at?: string; is_local?: boolean };
+type Paging<T> = { total?: number; items?: (T | null)[] };
+
+/**
+ * Every item of a paged endpoint. The first page says how many there are; the
+ * rest are requested by offset all at once and the scheduler paces them. A
+ * page that still fails after its retries is reported as skipped positions
+ * instead of losing the whole list.
+ */
+async function fetchPaged<T>(url: string, pageSize: number, token: string) {
+  const pageUrl = (offset: number) => `${url}${url.includes("?") ? "&" : "?"}limit=${pageSize}&offset=${offset}`;
+  const first = await spotifyGet<Paging<T>>(pageUrl(0), token);
+  const total = first.total ?? first.items?.length ?? 0;
+  const offsets: number[] = [];
+  for (let offset = pageSize; offset < total; offset += pageSize) offsets.push(offset);
+
+  const failed: number[] = [];
+  const pages = await Promise.all(
+    offsets.map((offset) =>
+      spotifyGet<Paging<T>>(pageUrl(offset), token).catch(() => {
+        for (let i = offset; i < Math.min(offset + pageSize, total); i++) failed.push(i);
+        return { items: [] as (T | null)[] };
+      })
+    )
+  );
+  // Dense, so unreadable pages are null positions rather than holes
+  const items: (T | null)[] = Array.from({ length: total }, (_, i) => first.items?.[i] ?? null);
+  offsets.forEach((offset, i) => {
+    (pages[i].items ?? []).forEach((item, j) => (items[offset + j] = item));
+  });
+  return { items, failed };
+}
+
+/** Adds the positions of unreadable pages to a list */
+function withFailed(list: TrackList, failed: number[]): TrackList {
+  if (!failed.length) return list;
+  const lost = failed.map((position): SkippedItem => ({ position, title: null, artist: null, reason: "fetch_failed" }));
+  return { tracks: list.tracks, skipped: [...list.skipped, ...lost].sort((a, b) => a.position - b.position) };
+}
+
+/** Saved items in order, with the positions of pages we couldn't read */
+async function fetchSavedItems(url: string, pageSize: number, token: string): Promise<TrackList> {
+  const { items, failed } = await fetchPaged<SavedItem>(url, pageSize, token);
+  const failedSet = new Set(failed);
+  const entries: Entry[] = [];
+  for (let i = 0; i < items.length; i++) {
+    if (failedSet.has(i)) continue;
+    const it = items[i];
+    if (it) entries.push(toEntry(it.track, i, it.added_at, it.is_local));
+  }
+  return withFailed(collect(entries), failed);
+}
+
+/**
+ * Album tracks in full, by position. /v1/tracks takes up to 50 IDs per call
+ * and answers in the order asked, with null for IDs it doesn't know.
+ */
+async function fetchFullTracks(ids: (string | null)[], token: string, market: string) {
+  const known = [...new Set(ids.filter((id): id is string => !!id))];
+  const batches: string[][] = [];
+  for (let i = 0; i < known.length; i += 50) batches.push(known.slice(i, i + 50));
+  const byId = new Map<string, SpotifyTrack | null>();
+  await Promise.all(
+    batches.map(async (batch) => {
+      const url = `${SPOTIFY_API}/tracks?ids=${batch.join(",")}&market=${market}`;
+      const data = await spotifyGet<{ tracks?: (SpotifyTrack | null)[] }>(url, token);
+      batch.forEach((id, i) => byId.set(id, data.tracks?.[i] ?? null));
+    })
+  );
+  return collect(ids.map((id, position) => toEntry(id ? byId.get(id) : null, position)));
+}
+
+/**
+ * Resolve any supported link to its display name and track list, plus the
+ * entries left out and why. Artist links use the artist's top tracks in the
+ * selected market.
+ */
+export async function fetchAllTracks(
+  source: SpotifySource,
+  token: string,
+  market: string
+): Promise<TrackList & { name: string; snapshotId?: string }> {
+  const { kind, id } = source;
+
+  switch (kind) {
+    case "playlist": {
+      const [meta, list] = await Promise.all([
+        spotifyGet<{ name: string; snapshot_id?: string }>(
+          `${SPOTIFY_API}/playlists/${id}?fields=name,snapshot_id`,
+          token
+        ),
+        fetchSavedItems(
+          `${SPOTIFY_API}/playlists/${id}/tracks?market=${market}&additional_types=track,episode`,
+          100,
+          token
+        ),
+      ]);
+      return { name: meta.name, ...list, snapshotId: meta.snapshot_id };
+    }
+    case "album": {
+      // Album pages only carry simplified tracks (no ISRC), so re-fetch them in full
+      const [album, { items, failed }] = await Promise.all([
+        spotifyGet<{ name: string }>(`${SPOTIFY_API}/albums/${id}?market=${market}`, token),
+        fetchPaged<SpotifyTrack>(`${SPOTIFY_API}/albums/${id}/tracks?market=${market}`, 50, token),
+      ]);
+      const ids = items.map((t, i) => (failed.includes(i) ? null : t?.linked_from?.id ?? t?.id ?? null));
+      const list = await fetchFullTracks(ids, token, market);
+      // Unreadable pages show up as unavailable until withFailed reclassifies them
+      const readable = { tracks: list.tracks, skipped: list.skipped.filter((s) => !failed.includes(s.position)) };
+      return { name: album.name, ...withFailed(readable, failed) };
+    }
+    case "liked": {
+      const list = await fetchSavedItems(`${SPOTIFY_API}/me/tracks?market=${market}`, 50, token);
+      return { name: "Liked Songs", ...list };
+    }
+    case "track": {
+      const track = await spotifyGet<SpotifyTrack>(`${SPOTIFY_API}/tracks/${id}?market=${market}`, token);
+      return { name: track.name ?? "", ...collect([toEntry(track, 0)]) };
+    }
+    case "artist": {
+      const [artist, top] = await Promise.all([
+        spotifyGet<{ name: string }>(`${SPOTIFY_API}/artists/${id}`, token),
+        spotifyGet<{ tracks?: SpotifyTrack[] }>(`${SPOTIFY_API}/artists/${id}/top-tracks?market=${market}`, token),
+      ]);
+      return { name: artist.name, ...collect((top.tracks ?? []).map((t, i) => toEntry(t, i))) };
+    }
+  }
+}
+
+type SpotifyImage = { url?: string; width?: number | null };
+
+/** Cover art for a share preview: the largest image Spotify has, or null (Liked Songs has none) */
+export async function fetchCoverImage({ kind, id }: SpotifySource, token: string): Promise<string | null> {
+  if (kind === "liked") return null;
+  const path = {
+    playlist: `playlists/${id}?fields=images`,
+    album: `albums/${id}`,
+    track: `tracks/${id}`,
+    artist: `artists/${id}`,
+  };
+  const data = await spotifyGet<{ images?: SpotifyImage[]; album?: { images?: SpotifyImage[] } }>(
+    `${SPOTIFY_API}/${path[kind]}`,
+    token
+  );
+  const images = data.images ?? data.album?.images ?? [];
+  const largest = [...images].sort((a, b) => (b.width ?? 0) - (a.width ?? 0))[0];
+  return largest?.url ?? null;
+}
@@ -0,0 +1,103 @@
+// ---------- Spotify Web API (app token) ----------
+
+import { ApiError } from "@/lib/api";
+import { cleanTrackTitleForSearch, rankCandidates, type MatchTarget } from "@/lib/matching";
+import { createScheduler } from "@/lib/scheduler";
+
+/** Overridable, like the API, so logins and app tokens can run against a local mock */
+export const SPOTIFY_ACCOUNTS_URL = process.env.SPOTIFY_ACCOUNTS_URL || "https://accounts.spotify.com";
+export const SPOTIFY_API = process.env.SPOTIFY_API_URL || "https://api.spotify.com/v1";
+
+// Searching a whole album or reading a 10k-track playlist is a burst; keep it under the rate limit
+const scheduler = createScheduler({ spotify: { concurrency: 4, minIntervalMs: 100 } });
+
+/** Any Spotify Web API call, queued with the searches and retried on 429/5xx */
+export function spotifyFetch(url: string, init?: RequestInit) {
+  return scheduler.fetch("spotify", url, init);
+}
+
+let appToken: { access_token: string; expires_in: number; expiresAt: number } | null = null;
+
+/** Client-credentials token, reused until shortly before Spotify says it expires */
+export async function getSpotifyAppToken() {
+  if (appToken && appToken.expiresAt > Date.now()) return appToken;
+
+  const id = process.env.SPOTIFY_CLIENT_ID!;
+  const secret = process.env.SPOTIFY_CLIENT_SECRET!;
+  if (!id || !secret) throw new ApiError("SERVER_MISCONFIGURED", "Missing Spotify env vars");
+  const body = new URLSearchParams({ grant_type: "client_credentials" });
+  const auth = Buffer.from(`${id}:${secret}`).toString("base64");
+
+  const res = await fetch(`${SPOTIFY_ACCOUNTS_URL}/api/token`, {
+    method: "POST",
+    headers: {
+      Authorization: `Basic ${auth}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body,
+    cache: "no-store",
+  });
+  if (!res.ok) throw new ApiError("SPOTIFY_AUTH_FAILED", "Failed to get Spotify token");
+  const data: { access_token: string; expires_in: number } = await res.json();
+  appToken = { ...data, expiresAt: Date.now() + Math.max(0, data.expires_in - 60) * 1000 };
+  return appToken;
+}
+
+/** A Spotify track offered as the equivalent of something from another service */
+export type SpotifyCandidate = {
+  uri: string;
+  url: string;
+  title: string;
+  artist: string;
+  album: string | null;
+  durationMs?: number;
+  isrc?: string;
+  confidence: number;
+};
+
+type SearchTrack = {
+  id: string;
+  uri: string;
+  name: string;
+  artists?: { name?: string }[];
+  album?: { name?: string };
+  duration_ms?: number;
+  external_ids?: { isrc?: string };
+  external_urls?: { spotify?: string };
+};
+
+/**
+ * Spotify tracks for `target`, best first, scored like store candidates.
+ * Field filters first; if they find nothing (odd punctuation, "feat." in the
+ * artist) a plain query gets another go.
+ */
+export async function searchSpotifyTracks(target: MatchTarget, market: string): Promise<SpotifyCandidate[]> {
+  const token = (await getSpotifyAppToken()).access_token;
+  const title = cleanTrackTitleForSearch(target.title) || target.title;
+  const artist = target.artist.split(",")[0].trim();
+  const queries = [`track:${title} artist:${artist}`, `${title} ${artist}`];
+
+  for (const q of queries) {
+    const params = new URLSearchParams({ q, type: "track", limit: "10", market });
+    const res = await spotifyFetch(`${SPOTIFY_API}/search?${params.toString()}`, {
+      headers: { Authorization: `Bearer ${token}` },
+      cache: "no-store",
+    });
+    if (!res.ok) throw new Error(`Spotify search failed (HTTP ${res.status})`);
+    const data: { tracks?: { items?: (SearchTrack | null)[] } } = await res.json();
+    const items = (data.tracks?.items ?? []).filter((t): t is SearchTrack => !!t?.id);
+    if (!items.length) continue;
+
+    const candidates = items.map((t) => ({
+      uri: t.uri,
+      url: t.external_urls?.spotify ?? `https://open.spotify.com/track/${t.id}`,
+      title: t.name,
+      artist: (t.artists ?? []).map((a) => a.name).filter(Boolean).join(", "),
+      album: t.album?.name ?? null,
+      durationMs: t.duration_ms,
+      isrc: t.external_ids?.isrc,
+    }));
+    return rankCandidates(target, candidates).map(({ candidate, confidence }) => ({ ...candidate, confidence }));
+  }
+  return [];
+}
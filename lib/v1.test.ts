@@ -0,0 +1,59 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { withApiKey, type V1Route } from "@/lib/v1";
+
+const route: V1Route = {
+  path: "/test",
+  method: "GET",
+  summary: "A route to check withApiKey against",
+  query: [
+    { name: "link", required: true, description: "Spotify link" },
+    { name: "format", values: ["csv", "json"], description: "File format" },
+  ],
+  errors: ["INVALID_REQUEST"],
+  response: { description: "ok", schema: "Resolved" },
+};
+
+const request = (key: string, query = "link=spotify:album:1") =>
+  new Request(`http://app/api/v1/test?${query}`, { headers: { "X-API-Key": key } });
+
+beforeAll(() => {
+  // Read on first use
+  vi.stubEnv("API_KEYS", "script:s3cret:2,other:0th3r:100");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("withApiKey", () => {
+  it.each([
+    ["a required parameter is missing", "format=csv", "link required"],
+    ["a value isn't listed", "link=x&format=xml", "format must be one of csv, json"],
+  ])("refuses a request where %s, before the handler runs", async (_, query, error) => {
+    const handler = vi.fn(async () => Response.json({}));
+    const res = await withApiKey(route, handler)(request("0th3r", query));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ code: "INVALID_REQUEST", error });
+    expect(handler).not.toHaveBeenCalled();
+    expect(res.headers.get("X-RateLimit-Limit")).toBe("100");
+  });
+
+  it("sends the rate-limit headers with the 429 once a key's minute is used up", async () => {
+    const handle = withApiKey(route, async () => Response.json({ ok: true }));
+    expect((await handle(request("s3cret"))).headers.get("X-RateLimit-Remaining")).toBe("1");
+    expect((await handle(request("s3cret"))).status).toBe(200);
+    const refused = await handle(request("s3cret"));
+    expect(refused.status).toBe(429);
+    expect(await refused.json()).toMatchObject({ code: "RATE_LIMITED" });
+    expect(refused.headers.get("X-RateLimit-Limit")).toBe("2");
+    expect(refused.headers.get("X-RateLimit-Remaining")).toBe("0");
+    expect(Number(refused.headers.get("X-RateLimit-Reset"))).toBeGreaterThan(Date.now() / 1000);
+    expect(Number(refused.headers.get("Retry-After"))).toBeGreaterThan(0);
+  });
+
+  it("has no quota to report for an unknown key", async () => {
+    const res = await withApiKey(route, async () => Response.json({}))(request("wrong"));
+    expect(res.status).toBe(401);
+    expect(res.headers.get("X-RateLimit-Limit")).toBeNull();
+  });
+});
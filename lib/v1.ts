@@ -0,0 +1,231 @@
+// ---------- v1 API ----------
+// Shared by the /api/v1 routes: the table describing them, the request
+// shapes they accept, the track lists they page through, and the key check
+// every handler runs first.
+
+import { NextResponse } from "next/server";
+import {
+  ApiError,
+  parseCountries,
+  parsePage,
+  type ErrorCode,
+  type Page,
+  type PageLimits,
+  type ResolvedSource,
+  type SkippedItem,
+  type Track,
+} from "@/lib/api";
+import { requireApiKey } from "@/lib/api-keys";
+import { createCache, createMemoryStore } from "@/lib/cache";
+import { EXPORT_CONTENT_TYPES, EXPORT_FORMATS } from "@/lib/export";
+import { errorResponse } from "@/lib/http";
+import { RateLimitedError, rateLimitHeaders, type Quota } from "@/lib/rate-limit";
+import { getSpotifyAppToken } from "@/lib/spotify";
+import { fetchAllTracks, resolveSpotifyLink } from "@/lib/spotify-source";
+
+export const TRACKS_PAGE: PageLimits = { defaultLimit: 100, maxLimit: 500 };
+/** Matching hits every store per track, so its pages are smaller */
+export const MATCH_PAGE: PageLimits = { defaultLimit: 25, maxLimit: 50 };
+export const EXPORT_PAGE: PageLimits = { defaultLimit: 200, maxLimit: 200 };
+
+// ---------- Routes ----------
+/** A query parameter a route reads; withApiKey checks it before the handler runs */
+export type V1Param = {
+  name: string;
+  description: string;
+  required?: boolean;
+  /** The only values accepted */
+  values?: readonly string[];
+  default?: string;
+};
+
+/**
+ * One /api/v1 endpoint. Its handler is built from this with withApiKey and
+ * lib/openapi.ts builds the spec from the same table, so the two can't list
+ * different parameters, limits or formats.
+ */
+export type V1Route = {
+  /** Under /api/v1, where its route.ts lives */
+  path: string;
+  method: "GET" | "POST";
+  summary: string;
+  query: V1Param[];
+  /** offset/limit bounds: query parameters on GET, MatchRequest fields in the body on POST */
+  page?: PageLimits;
+  /** What the handler can answer with besides the key check's UNAUTHORIZED and RATE_LIMITED, and INTERNAL */
+  errors: ErrorCode[];
+  /** The 200 answer: a schema from the spec's components, or the file types it comes as */
+  response: { description: string } & ({ schema: string } | { contentTypes: string[] });
+};
+
+const LINK: V1Param = { name: "link", required: true, description: "Spotify link or URI" };
+const COUNTRY: V1Param = { name: "country", default: "US", description: "Market for availability" };
+const LINK_ERRORS: ErrorCode[] = [
+  "INVALID_REQUEST",
+  "INVALID_LINK",
+  "LOGIN_REQUIRED",
+  "PLAYLIST_NOT_FOUND",
+  "UPSTREAM_RATE_LIMITED",
+  "UPSTREAM_UNAVAILABLE",
+];
+
+export const V1_ROUTES = {
+  resolve: {
+    path: "/resolve",
+    method: "GET",
+    summary: "What a Spotify link points at",
+    query: [LINK, COUNTRY],
+    errors: LINK_ERRORS,
+    response: {
+      description: "Source, track count, and the entries that aren't tracks we can match",
+      schema: "Resolved",
+    },
+  },
+  tracks: {
+    path: "/tracks",
+    method: "GET",
+    summary: "A page of the link's tracks, in order",
+    query: [LINK, COUNTRY],
+    page: TRACKS_PAGE,
+    errors: LINK_ERRORS,
+    response: { description: "Tracks", schema: "TrackPage" },
+  },
+  match: {
+    path: "/match",
+    method: "POST",
+    summary: "Store matches for a page of tracks",
+    query: [],
+    page: MATCH_PAGE,
+    errors: LINK_ERRORS,
+    response: { description: "Matches, keyed by store ID", schema: "MatchPage" },
+  },
+  export: {
+    path: "/export",
+    method: "POST",
+    summary: "Store matches for a page of tracks, as a file",
+    query: [{ name: "format", required: true, values: EXPORT_FORMATS, description: "File to render the matches as" }],
+    page: EXPORT_PAGE,
+    errors: LINK_ERRORS,
+    response: {
+      description: "The file. X-Total-Count has the track count; X-Next-Offset is set when there are more",
+      contentTypes: Object.values(EXPORT_CONTENT_TYPES).map((t) => t.split(";")[0]),
+    },
+  },
+} satisfies Record<string, V1Route>;
+
+/** Required parameters present, listed values among them */
+function checkQuery(route: V1Route, params: URLSearchParams) {
+  for (const p of route.query) {
+    const value = params.get(p.name)?.trim();
+    if (!value) {
+      if (p.required) throw new ApiError("INVALID_REQUEST", `${p.name} required`);
+    } else if (p.values && !p.values.includes(value)) {
+      throw new ApiError("INVALID_REQUEST", `${p.name} must be one of ${p.values.join(", ")}`);
+    }
+  }
+}
+
+// ---------- Track lists ----------
+// Paging through a big playlist shouldn't re-read it from Spotify for every page,
+// and pages should line up even if someone edits it halfway through
+const listCache = createCache(createMemoryStore(200), { ttlMs: 5 * 60 * 1000, negativeTtlMs: 5 * 60 * 1000 });
+
+export type SourceTracks = { source: ResolvedSource; tracks: Track[]; skipped: SkippedItem[] };
+
+/** The API uses the app token only, so Liked Songs and private playlists are out */
+export async function loadSource(link: string, market: string): Promise<SourceTracks> {
+  const source = await resolveSpotifyLink(link);
+  if (source.kind === "liked") throw new ApiError("LOGIN_REQUIRED", "Liked Songs aren't available through the API");
+  return listCache.wrap(`${source.kind}:${source.id}:${market}`, async () => {
+    const { name, tracks, skipped } = await fetchAllTracks(source, (await getSpotifyAppToken()).access_token, market);
+    return { source: { ...source, name }, tracks, skipped };
+  });
+}
+
+// ---------- Requests ----------
+export type MatchRequest = {
+  /** A Spotify link, or… */
+  link: string | null;
+  /** …tracks given directly */
+  tracks: Track[] | null;
+  countries: string[];
+  providers: string[];
+  page: Page;
+  refresh: boolean;
+};
+
+function parseTrack(v: unknown, i: number): Track {
+  const t = (v ?? {}) as Record<string, unknown>;
+  if (typeof t.title !== "string" || !t.title.trim() || typeof t.artist !== "string" || !t.artist.trim()) {
+    throw new ApiError("INVALID_REQUEST", `tracks[${i}] needs a title and an artist`);
+  }
+  const optional = (key: string, type: "string" | "number") => (typeof t[key] === type ? t[key] : undefined);
+  return {
+    id: null,
+    addedAt: null,
+    title: t.title.trim(),
+    artist: t.artist.trim(),
+    album: optional("album", "string") as string | undefined,
+    durationMs: optional("durationMs", "number") as number | undefined,
+    isrc: optional("isrc", "string") as string | undefined,
+  };
+}
+
+/** Body of POST /api/v1/match and /api/v1/export: `link` or `tracks`, plus the usual options */
+export function parseMatchRequest(body: unknown, limits: PageLimits): MatchRequest {
+  if (!body || typeof body !== "object") throw new ApiError("INVALID_REQUEST", "Expected a JSON object");
+  const b = body as Record<string, unknown>;
+  const link = typeof b.link === "string" && b.link.trim() ? b.link.trim() : null;
+  if (!link && !Array.isArray(b.tracks)) throw new ApiError("INVALID_REQUEST", "Send a link or a list of tracks");
+  if (link && b.tracks !== undefined) throw new ApiError("INVALID_REQUEST", "Send a link or tracks, not both");
+  if (b.providers !== undefined && !Array.isArray(b.providers)) {
+    throw new ApiError("INVALID_REQUEST", "providers must be a list of store IDs");
+  }
+  return {
+    link,
+    tracks: link ? null : (b.tracks as unknown[]).map(parseTrack),
+    countries: parseCountries(b.countries, b.country),
+    providers: ((b.providers as unknown[] | undefined) ?? []).filter((p): p is string => typeof p === "string"),
+    page: parsePage(b.offset, b.limit, limits),
+    refresh: b.refresh === true,
+  };
+}
+
+/** The tracks a match/export request is about, and where they came from */
+export async function requestedTracks(r: MatchRequest): Promise<{ source: ResolvedSource | null; tracks: Track[] }> {
+  if (r.tracks) return { source: null, tracks: r.tracks };
+  return loadSource(r.link!, r.countries[0]);
+}
+
+// ---------- Handlers ----------
+/**
+ * Checks the API key and the route's query parameters, runs the handler, and
+ * adds rate-limit headers to whatever comes back
+ */
+export function withApiKey(route: V1Route, handler: (req: Request, quota: Quota) => Promise<Response>) {
+  return async (req: Request) => {
+    let quota: Quota | null = null;
+    let res: Response;
+    try {
+      quota = requireApiKey(req);
+      checkQuery(route, new URL(req.url).searchParams);
+      res = await handler(req, quota);
+    } catch (e) {
+      // Refused for the limit: the headers say when it resets
+      if (e instanceof RateLimitedError) quota = e.quota;
+      res = errorResponse(e);
+    }
+    if (quota) for (const [k, v] of Object.entries(rateLimitHeaders(quota))) res.headers.set(k, v);
+    return res;
+  };
+}
+
+export function v1Json(data: unknown) {
+  return NextResponse.json(data, { headers: { "Cache-Control": "no-store" } });
+}
+
+export async function readJson(req: Request) {
+  return req.json().catch(() => {
+    throw new ApiError("INVALID_REQUEST", "Body must be JSON");
+  });
+}
@@ -0,0 +1,34 @@
+// A throwaway HTTP server on a free local port, for tests that need real
+// fetch() traffic (retries, headers) rather than a mocked function.
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export type FakeServer = {
+  url: string;
+  close(): Promise<void>;
+};
+
+export async function startFakeServer(
+  handler: (req: IncomingMessage, res: ServerResponse) => void | Promise<void>
+): Promise<FakeServer> {
+  const server = createServer((req, res) => {
+    Promise.resolve(handler(req, res)).catch((e) => {
+      res.statusCode = 500;
+      res.end(String(e));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+/** The request body, read whole */
+export async function readBody(req: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+}